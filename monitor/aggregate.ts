@@ -0,0 +1,282 @@
+import type { SpeedResult } from './providers/base';
+import type { HeartbeatSample } from './heartbeat';
+import { round2, percentile, mean, describe, percentBelow, histogram, cdf, compare, type Distribution, type HistogramBin, type CdfPoint, type PeriodComparison } from '../shared/stats';
+import type { TimeSlot } from '../shared/timeslots';
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+export interface MetricSummary {
+  min: number;
+  avg: number;
+  max: number;
+  p50: number;
+  p95: number;
+}
+
+export interface MeasurementSummary {
+  count: number;
+  download: Distribution;
+  upload: Distribution;
+  ping: Distribution;
+  jitter: Distribution;
+  // 下り・上りが belowMbps を下回った計測の割合（%）
+  below?: { thresholdMbps: number; download: number; upload: number };
+}
+
+export type SummaryMetric = 'download' | 'upload' | 'ping' | 'jitter';
+
+const SUMMARY_METRICS: SummaryMetric[] = ['download', 'upload', 'ping', 'jitter'];
+
+export interface PeakRecord {
+  value: number;
+  timestamp: string;
+}
+
+// 最高下り・最高上り・最低Ping とその時刻（計測がなければ null）
+export interface PeakSummary {
+  download: PeakRecord | null;
+  upload: PeakRecord | null;
+  ping: PeakRecord | null;
+}
+
+export interface SlotSummary extends Record<SummaryMetric, Distribution> {
+  slot: string;
+  count: number;
+}
+
+// ダッシュボードの概要に必要な集計（生データを送らずにサーバー側で求める）
+export interface RangeSummary extends MeasurementSummary {
+  // 期間内の手動計測の件数（除外した場合も数える）
+  manualCount: number;
+  peaks: PeakSummary;
+  timeSlots: SlotSummary[];
+  histogram: Record<SummaryMetric, HistogramBin[]>;
+  cdf: Record<SummaryMetric, CdfPoint[]>;
+}
+
+export interface RangeSummaryOptions {
+  belowMbps?: number;
+  timeSlots: TimeSlot[];
+  // 手動計測を統計から除く（件数は manualCount に残す）
+  excludeManual?: boolean;
+}
+
+export interface MetricComparison {
+  before: Distribution;
+  after: Distribution;
+  comparison: PeriodComparison;
+}
+
+export interface SlotComparison extends Record<SummaryMetric, MetricComparison> {
+  slot: string;
+  count: [number, number];
+}
+
+// 2つの期間（before → after）の各指標・ピーク・時間帯ごとの差
+export interface RangeComparison extends Record<SummaryMetric, MetricComparison> {
+  peaks: [PeakSummary, PeakSummary];
+  timeSlots: SlotComparison[];
+}
+
+export interface HeartbeatBucket {
+  timestamp: string;
+  count: number;
+  latency: number | null;
+  maxLatency: number | null;
+  loss: number;
+}
+
+export interface SpeedBucket {
+  timestamp: string;
+  count: number;
+  download: MetricSummary;
+  upload: MetricSummary;
+  ping: MetricSummary;
+  jitter: MetricSummary;
+}
+
+// '5m' / '1h' / '1d' 形式のバケット幅をミリ秒に変換（不正な値は null）
+export function parseBucket(value: string): number | null {
+  const match = value.match(/^(\d+)([mhd])$/);
+  if (!match) return null;
+  const amount = Number(match[1]);
+  return amount > 0 ? amount * UNIT_MS[match[2]] : null;
+}
+
+export function summarize(values: number[]): MetricSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    min: sorted[0] ?? 0,
+    avg: round2(mean(values)),
+    max: sorted[sorted.length - 1] ?? 0,
+    p50: round2(percentile(sorted, 50)),
+    p95: round2(percentile(sorted, 95)),
+  };
+}
+
+// タイムスタンプをバケット開始時刻（UTC基準）ごとにまとめ、時刻順に並べる
+function groupByBucket<T extends { timestamp: string }>(items: T[], bucketMs: number): [number, T[]][] {
+  const groups = new Map<number, T[]>();
+  for (const item of items) {
+    const start = Math.floor(new Date(item.timestamp).getTime() / bucketMs) * bucketMs;
+    const group = groups.get(start);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(start, [item]);
+    }
+  }
+  return Array.from(groups.entries()).sort(([a], [b]) => a - b);
+}
+
+// 計測結果を一定幅の時間バケットにまとめる
+export function bucketize(results: SpeedResult[], bucketMs: number): SpeedBucket[] {
+  return groupByBucket(results, bucketMs).map(([start, group]) => ({
+    timestamp: new Date(start).toISOString(),
+    count: group.length,
+    download: summarize(group.map(d => d.download)),
+    upload: summarize(group.map(d => d.upload)),
+    ping: summarize(group.map(d => d.ping)),
+    jitter: summarize(group.map(d => d.jitter)),
+  }));
+}
+
+// 期間全体の分布（中央値・p5/p95・標準偏差など）
+export function summarizeMeasurements(results: SpeedResult[], belowMbps?: number): MeasurementSummary {
+  const downloads = results.map(r => r.download);
+  const uploads = results.map(r => r.upload);
+  return {
+    count: results.length,
+    download: describe(downloads),
+    upload: describe(uploads),
+    ping: describe(results.map(r => r.ping)),
+    jitter: describe(results.map(r => r.jitter)),
+    ...(belowMbps !== undefined
+      ? { below: { thresholdMbps: belowMbps, download: percentBelow(downloads, belowMbps), upload: percentBelow(uploads, belowMbps) } }
+      : {}),
+  };
+}
+
+function peakOf(results: SpeedResult[], metric: SummaryMetric, highest: boolean): PeakRecord | null {
+  let peak: SpeedResult | undefined;
+  for (const result of results) {
+    if (!peak || (highest ? result[metric] > peak[metric] : result[metric] < peak[metric])) peak = result;
+  }
+  return peak ? { value: peak[metric], timestamp: peak.timestamp } : null;
+}
+
+function peaksOf(results: SpeedResult[]): PeakSummary {
+  return {
+    download: peakOf(results, 'download', true),
+    upload: peakOf(results, 'upload', true),
+    ping: peakOf(results, 'ping', false),
+  };
+}
+
+// 時間帯の区切りはローカル時刻の時で判定する（SLAレポート・異常検知と同じ）
+function inSlot(slot: TimeSlot) {
+  return (result: SpeedResult): boolean => {
+    const hour = new Date(result.timestamp).getHours();
+    return hour >= slot.start && hour < slot.end;
+  };
+}
+
+function metricValues(results: SpeedResult[]): Record<SummaryMetric, number[]> {
+  return {
+    download: results.map(r => r.download),
+    upload: results.map(r => r.upload),
+    ping: results.map(r => r.ping),
+    jitter: results.map(r => r.jitter),
+  };
+}
+
+function mapMetrics<T>(fn: (metric: SummaryMetric) => T): Record<SummaryMetric, T> {
+  return Object.fromEntries(SUMMARY_METRICS.map(metric => [metric, fn(metric)])) as Record<SummaryMetric, T>;
+}
+
+// 期間全体の分布にピーク・時間帯別・ヒストグラム/累積分布を加える
+export function summarizeRange(results: SpeedResult[], options: RangeSummaryOptions): RangeSummary {
+  const manualCount = results.filter(r => r.manual).length;
+  const included = options.excludeManual ? results.filter(r => !r.manual) : results;
+  const values = metricValues(included);
+  return {
+    ...summarizeMeasurements(included, options.belowMbps),
+    manualCount,
+    peaks: peaksOf(included),
+    timeSlots: options.timeSlots.map(slot => {
+      const slotValues = metricValues(included.filter(inSlot(slot)));
+      return { slot: slot.name, count: slotValues.download.length, ...mapMetrics(metric => describe(slotValues[metric])) };
+    }),
+    histogram: mapMetrics(metric => histogram(values[metric])),
+    cdf: mapMetrics(metric => cdf(values[metric])),
+  };
+}
+
+function compareMetrics(before: SpeedResult[], after: SpeedResult[]): Record<SummaryMetric, MetricComparison> {
+  const beforeValues = metricValues(before);
+  const afterValues = metricValues(after);
+  return mapMetrics(metric => ({
+    before: describe(beforeValues[metric]),
+    after: describe(afterValues[metric]),
+    comparison: compare(beforeValues[metric], afterValues[metric]),
+  }));
+}
+
+// 2つの期間の中央値の差とその有意性（順位和検定には生の計測値が要るためサーバー側で求める）
+export function compareRanges(before: SpeedResult[], after: SpeedResult[], timeSlots: TimeSlot[]): RangeComparison {
+  return {
+    ...compareMetrics(before, after),
+    peaks: [peaksOf(before), peaksOf(after)],
+    timeSlots: timeSlots.map(slot => {
+      const slotBefore = before.filter(inSlot(slot));
+      const slotAfter = after.filter(inSlot(slot));
+      return { slot: slot.name, count: [slotBefore.length, slotAfter.length], ...compareMetrics(slotBefore, slotAfter) };
+    }),
+  };
+}
+
+function mergeSummaries(parts: { summary: MetricSummary; count: number }[]): MetricSummary {
+  const total = parts.reduce((sum, p) => sum + p.count, 0) || 1;
+  const weighted = (key: 'avg' | 'p50' | 'p95') =>
+    round2(parts.reduce((sum, p) => sum + p.summary[key] * p.count, 0) / total);
+  return {
+    min: Math.min(...parts.map(p => p.summary.min)),
+    avg: weighted('avg'),
+    max: Math.max(...parts.map(p => p.summary.max)),
+    // 集計済みデータからは正確に求められないため件数で加重した近似値
+    p50: weighted('p50'),
+    p95: weighted('p95'),
+  };
+}
+
+// 集計済みバケットをより粗いバケット幅にまとめ直す
+export function mergeBuckets(buckets: SpeedBucket[], bucketMs: number): SpeedBucket[] {
+  const metric = (group: SpeedBucket[], key: 'download' | 'upload' | 'ping' | 'jitter') =>
+    mergeSummaries(group.map(b => ({ summary: b[key], count: b.count })));
+
+  return groupByBucket(buckets, bucketMs).map(([start, group]) => ({
+    timestamp: new Date(start).toISOString(),
+    count: group.reduce((sum, b) => sum + b.count, 0),
+    download: metric(group, 'download'),
+    upload: metric(group, 'upload'),
+    ping: metric(group, 'ping'),
+    jitter: metric(group, 'jitter'),
+  }));
+}
+
+export function bucketizeHeartbeats(samples: HeartbeatSample[], bucketMs: number): HeartbeatBucket[] {
+  return groupByBucket(samples, bucketMs).map(([start, group]) => {
+    const latencies = group.map(s => s.latency).filter((v): v is number => v !== null);
+    return {
+      timestamp: new Date(start).toISOString(),
+      count: group.length,
+      latency: latencies.length > 0 ? round2(latencies.reduce((sum, v) => sum + v, 0) / latencies.length) : null,
+      maxLatency: latencies.length > 0 ? Math.max(...latencies) : null,
+      loss: round2(group.reduce((sum, s) => sum + s.loss, 0) / group.length),
+    };
+  });
+}
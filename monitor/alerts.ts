@@ -0,0 +1,190 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { exec } from 'child_process';
+import { fileURLToPath } from 'url';
+import type { NotificationOptions } from './config';
+import type { SpeedResult } from './providers';
+import { insertAlertEvent, activeAlertRuleIds, type AlertEvent } from './storage';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const ALERTS_FILE = path.join(__dirname, 'alerts.json');
+
+export const ALERT_TYPES = ['download-below', 'upload-below', 'ping-above', 'jitter-above', 'consecutive-failures'] as const;
+
+export type AlertType = typeof ALERT_TYPES[number];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertType;
+  threshold: number;
+  enabled: boolean;
+}
+
+// Webhook 1件分の送信結果
+export interface WebhookDelivery {
+  url: string;
+  ok: boolean;
+  // 応答があった場合のHTTPステータス
+  status?: number;
+  error?: string;
+}
+
+export interface AlertContext {
+  // 失敗時は undefined（速度系のルールは評価しない）
+  result?: SpeedResult;
+  consecutiveFailures: number;
+}
+
+const UNITS: Record<AlertType, string> = {
+  'download-below': 'Mbps',
+  'upload-below': 'Mbps',
+  'ping-above': 'ms',
+  'jitter-above': 'ms',
+  'consecutive-failures': '回',
+};
+
+export function loadAlertRules(): AlertRule[] {
+  if (!fs.existsSync(ALERTS_FILE)) {
+    return [];
+  }
+  try {
+    return JSON.parse(fs.readFileSync(ALERTS_FILE, 'utf-8'));
+  } catch {
+    return [];
+  }
+}
+
+export function saveAlertRules(rules: AlertRule[]) {
+  fs.writeFileSync(ALERTS_FILE, JSON.stringify(rules, null, 2));
+}
+
+// リクエストボディを検証してルールを作成（不正ならエラーメッセージを返す）
+export function parseAlertRule(body: any, id: string = crypto.randomUUID()): AlertRule | string {
+  if (typeof body?.name !== 'string' || body.name.trim() === '') {
+    return 'Invalid name';
+  }
+  if (!(ALERT_TYPES as readonly string[]).includes(body.type)) {
+    return `Invalid type (must be one of ${ALERT_TYPES.join(', ')})`;
+  }
+  if (typeof body.threshold !== 'number' || body.threshold <= 0) {
+    return 'Invalid threshold (must be a positive number)';
+  }
+  return {
+    id,
+    name: body.name.trim(),
+    type: body.type,
+    threshold: body.threshold,
+    enabled: body.enabled !== false,
+  };
+}
+
+// ルールの対象となる現在値（評価できない場合は null）
+function currentValue(rule: AlertRule, context: AlertContext): number | null {
+  switch (rule.type) {
+    case 'download-below':
+      return context.result?.download ?? null;
+    case 'upload-below':
+      return context.result?.upload ?? null;
+    case 'ping-above':
+      return context.result?.ping ?? null;
+    case 'jitter-above':
+      return context.result?.jitter ?? null;
+    case 'consecutive-failures':
+      return context.consecutiveFailures;
+  }
+}
+
+function isBreached(rule: AlertRule, value: number): boolean {
+  return rule.type.endsWith('-below') ? value < rule.threshold : value >= rule.threshold;
+}
+
+function formatMessage(rule: AlertRule, state: AlertEvent['state'], value: number): string {
+  const unit = UNITS[rule.type];
+  return state === 'fired'
+    ? `🚨 ${rule.name}: ${value}${unit}（しきい値 ${rule.threshold}${unit}）`
+    : `✅ ${rule.name} が回復しました: ${value}${unit}`;
+}
+
+// Slack（text）と Discord（content）の両方で表示できるJSON
+function webhookPayload(event: AlertEvent) {
+  return { text: event.message, content: event.message, event };
+}
+
+// 失敗しても例外にはせず、結果として返す（計測は続ける）
+async function sendWebhook(url: string, event: AlertEvent): Promise<WebhookDelivery> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(webhookPayload(event)),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      console.error(`Webhook送信エラー (${url}): ${response.status}`);
+      return { url, ok: false, status: response.status, error: `HTTP ${response.status}` };
+    }
+    return { url, ok: true, status: response.status };
+  } catch (error: any) {
+    console.error(`Webhook送信エラー (${url}):`, error.message);
+    return { url, ok: false, error: error.message };
+  }
+}
+
+function escapeShell(text: string): string {
+  return text.replace(/["'`$\\]/g, '');
+}
+
+// OS標準の通知を表示（失敗しても計測は続ける）
+function sendDesktopNotification(event: AlertEvent) {
+  const title = 'ネット速度モニター';
+  const message = escapeShell(event.message);
+  const command = process.platform === 'darwin'
+    ? `osascript -e 'display notification "${message}" with title "${title}"'`
+    : process.platform === 'win32'
+      ? `powershell -NoProfile -Command "New-BurntToastNotification -Text '${title}', '${message}'"`
+      : `notify-send "${title}" "${message}"`;
+  exec(command, (error) => {
+    if (error) console.error('デスクトップ通知エラー:', error.message);
+  });
+}
+
+export async function notify(event: AlertEvent, options: NotificationOptions): Promise<WebhookDelivery[]> {
+  if (options.desktop) {
+    sendDesktopNotification(event);
+  }
+  return Promise.all(options.webhooks.map(url => sendWebhook(url, event)));
+}
+
+// 各ルールを評価し、状態が変わったもの（発火・回復）を記録して通知する
+export async function evaluateAlerts(context: AlertContext, options: NotificationOptions): Promise<AlertEvent[]> {
+  const active = new Set(activeAlertRuleIds());
+  const events: AlertEvent[] = [];
+
+  for (const rule of loadAlertRules()) {
+    if (!rule.enabled) continue;
+    const value = currentValue(rule, context);
+    if (value === null) continue;
+
+    const breached = isBreached(rule, value);
+    if (breached === active.has(rule.id)) continue;
+
+    const state = breached ? 'fired' : 'resolved';
+    const event: AlertEvent = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      state,
+      timestamp: new Date().toISOString(),
+      value,
+      message: formatMessage(rule, state, value),
+    };
+    insertAlertEvent(event);
+    console.log(event.message);
+    events.push(event);
+  }
+
+  await Promise.all(events.map(event => notify(event, options)));
+  return events;
+}
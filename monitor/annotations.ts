@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import type { SpeedResult } from './providers';
+
+export const ANNOTATION_CATEGORIES = ['equipment', 'reboot', 'isp', 'config', 'other'] as const;
+
+export type AnnotationCategory = typeof ANNOTATION_CATEGORIES[number];
+
+// ルーター交換・ONUの再起動・ISPへの問い合わせなど、計測結果の変化を説明する出来事
+export interface Annotation {
+  id: string;
+  timestamp: string;
+  // 工事など幅のある出来事の終了時刻（一瞬の出来事は undefined）
+  endTime?: string;
+  label: string;
+  category: AnnotationCategory;
+  author?: string;
+  createdAt: string;
+}
+
+// エクスポート時に、その計測の時点で記録されていた出来事のラベルを添える
+export type AnnotatedResult = SpeedResult & { annotations?: string[] };
+
+const MAX_LABEL_LENGTH = 200;
+
+function parseDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// リクエストボディを検証して出来事を作成（不正ならエラーメッセージを返す）
+export function parseAnnotation(
+  body: any,
+  id: string = crypto.randomUUID(),
+  createdAt: string = new Date().toISOString()
+): Annotation | string {
+  const timestamp = parseDate(body?.timestamp);
+  if (timestamp === null) {
+    return 'Invalid timestamp (must be a date)';
+  }
+
+  let endTime: string | undefined;
+  if (body.endTime !== undefined && body.endTime !== null && body.endTime !== '') {
+    const parsed = parseDate(body.endTime);
+    if (parsed === null || parsed < timestamp) {
+      return 'Invalid endTime (must be a date after timestamp)';
+    }
+    endTime = parsed;
+  }
+
+  if (typeof body.label !== 'string' || body.label.trim() === '' || body.label.length > MAX_LABEL_LENGTH) {
+    return `Invalid label (must be 1-${MAX_LABEL_LENGTH} characters)`;
+  }
+
+  const category = body.category ?? 'other';
+  if (!(ANNOTATION_CATEGORIES as readonly string[]).includes(category)) {
+    return `Invalid category (must be one of ${ANNOTATION_CATEGORIES.join(', ')})`;
+  }
+
+  if (body.author !== undefined && body.author !== null && typeof body.author !== 'string') {
+    return 'Invalid author';
+  }
+  const author = typeof body.author === 'string' && body.author.trim() !== '' ? body.author.trim() : undefined;
+
+  return { id, timestamp, endTime, label: body.label.trim(), category, author, createdAt };
+}
+
+// 期間のある出来事はその間の計測に、一瞬の出来事は直後の計測に結びつける
+export function annotateResults(results: SpeedResult[], annotations: Annotation[]): AnnotatedResult[] {
+  if (annotations.length === 0) return results;
+  return results.map((result, index) => {
+    const previous = index > 0 ? results[index - 1].timestamp : '';
+    const labels = annotations
+      .filter(a => a.endTime
+        ? a.timestamp <= result.timestamp && result.timestamp <= a.endTime
+        : previous < a.timestamp && a.timestamp <= result.timestamp)
+      .map(a => a.label);
+    return labels.length > 0 ? { ...result, annotations: labels } : result;
+  });
+}
@@ -0,0 +1,188 @@
+import type { SpeedResult } from './providers';
+import { round2, describe } from '../shared/stats';
+import { TIME_SLOTS, slotForHour, type TimeSlot } from '../shared/timeslots';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+// 基準値を求めるのに必要な過去の計測数（足りなければより粗い区分で比べる）
+const MIN_BASELINE_SAMPLES = 4;
+
+export type AnomalyMetric = 'download' | 'upload' | 'ping';
+
+const METRICS: Record<AnomalyMetric, { label: string; unit: string; higherIsWorse: boolean }> = {
+  download: { label: '下り速度', unit: 'Mbps', higherIsWorse: false },
+  upload: { label: '上り速度', unit: 'Mbps', higherIsWorse: false },
+  ping: { label: 'Ping', unit: 'ms', higherIsWorse: true },
+};
+
+export interface AnomalyOptions {
+  // 通常値（中央値）からこの割合（%）以上悪化したら異常とみなす
+  thresholdPercent: number;
+  // 基準にする過去の期間（日）。生データの保持期間（retention.rawDays）より長くはできない
+  lookbackDays: number;
+  // 時間帯の区切り（時間帯別テーブルと同じもの）
+  slots: TimeSlot[];
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = {
+  thresholdPercent: 30,
+  lookbackDays: 28,
+  slots: TIME_SLOTS,
+};
+
+export interface Anomaly {
+  timestamp: string;
+  metric: AnomalyMetric;
+  value: number;
+  // 同じ曜日・時間帯の過去の中央値
+  baseline: number;
+  // 悪化した割合（%）
+  deviationPercent: number;
+  // 比較した区分（例: "火 21時台"）
+  bucket: string;
+  message: string;
+}
+
+// 同じ指標の異常が途切れずに続いた期間
+export interface AnomalyPeriod {
+  start: string;
+  end: string;
+  metric: AnomalyMetric;
+  samples: number;
+  worstDeviationPercent: number;
+}
+
+export interface AnomalyReport {
+  options: Omit<AnomalyOptions, 'slots'>;
+  anomalies: Anomaly[];
+  periods: AnomalyPeriod[];
+}
+
+interface BaselineBucket {
+  key: string;
+  label: string;
+}
+
+// 曜日×時 → 曜日×時間帯 → 時間帯のみ、の順に細かい区分から試す
+// 時間帯はダッシュボードの時間帯別テーブルと同じ区切り
+function baselineBuckets(timestamp: string, slots: TimeSlot[]): BaselineBucket[] {
+  const date = new Date(timestamp);
+  const day = date.getDay();
+  const hour = date.getHours();
+  const slot = slotForHour(hour, slots)!;
+  return [
+    { key: `hour:${day}:${hour}`, label: `${WEEKDAYS[day]} ${hour}時台` },
+    { key: `slot:${day}:${slot.start}`, label: `${WEEKDAYS[day]} ${slot.name}` },
+    { key: `slot:${slot.start}`, label: slot.name },
+  ];
+}
+
+// 区分ごとの過去の計測（時刻順）
+function indexHistory(history: SpeedResult[], slots: TimeSlot[]): Map<string, SpeedResult[]> {
+  const index = new Map<string, SpeedResult[]>();
+  for (const sample of history) {
+    for (const bucket of baselineBuckets(sample.timestamp, slots)) {
+      const samples = index.get(bucket.key);
+      if (samples) {
+        samples.push(sample);
+      } else {
+        index.set(bucket.key, [sample]);
+      }
+    }
+  }
+  return index;
+}
+
+// 計測時刻より前の lookbackDays 日間で、同じ区分の計測から基準値を求める
+function baselineFor(sample: SpeedResult, index: Map<string, SpeedResult[]>, lookbackMs: number, slots: TimeSlot[]) {
+  const time = new Date(sample.timestamp).getTime();
+  for (const bucket of baselineBuckets(sample.timestamp, slots)) {
+    const past = (index.get(bucket.key) ?? []).filter(s => {
+      const t = new Date(s.timestamp).getTime();
+      return t < time && t >= time - lookbackMs;
+    });
+    if (past.length >= MIN_BASELINE_SAMPLES) {
+      return { bucket, past };
+    }
+  }
+  return null;
+}
+
+function findPeriods(anomalies: Anomaly[], samples: SpeedResult[]): AnomalyPeriod[] {
+  const periods: AnomalyPeriod[] = [];
+  for (const metric of Object.keys(METRICS) as AnomalyMetric[]) {
+    const flagged = new Map<string, Anomaly>(anomalies.filter(a => a.metric === metric).map(a => [a.timestamp, a]));
+    let current: Anomaly[] = [];
+
+    const flush = () => {
+      if (current.length > 1) {
+        periods.push({
+          start: current[0].timestamp,
+          end: current[current.length - 1].timestamp,
+          metric,
+          samples: current.length,
+          worstDeviationPercent: Math.max(...current.map(a => a.deviationPercent)),
+        });
+      }
+      current = [];
+    };
+
+    for (const sample of samples) {
+      const anomaly = flagged.get(sample.timestamp);
+      if (anomaly) {
+        current.push(anomaly);
+      } else {
+        flush();
+      }
+    }
+    flush();
+  }
+  return periods.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+// history（時刻順、基準用の過去分を含む）のうち from 以降の計測を過去の同じ曜日・時間帯と比べる
+// 通常値から thresholdPercent 以上悪化し、かつ過去の p5〜p95 の範囲から外れた計測を異常とする
+export function detectAnomalies(
+  history: SpeedResult[],
+  from: string | undefined,
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS
+): AnomalyReport {
+  // 手動計測はタイミングが偏るため基準には含めない
+  const index = indexHistory(history.filter(s => !s.manual), options.slots);
+  const lookbackMs = options.lookbackDays * DAY_MS;
+  const samples = from ? history.filter(s => s.timestamp >= from) : history;
+  const anomalies: Anomaly[] = [];
+
+  for (const sample of samples) {
+    const baseline = baselineFor(sample, index, lookbackMs, options.slots);
+    if (!baseline) continue;
+
+    for (const metric of Object.keys(METRICS) as AnomalyMetric[]) {
+      const { label, unit, higherIsWorse } = METRICS[metric];
+      const usual = describe(baseline.past.map(s => s[metric]));
+      if (usual.median <= 0) continue;
+
+      const value = sample[metric];
+      const deviation = higherIsWorse ? (value - usual.median) / usual.median : (usual.median - value) / usual.median;
+      const outside = higherIsWorse ? value > usual.p95 : value < usual.p5;
+      if (deviation * 100 < options.thresholdPercent || !outside) continue;
+
+      const deviationPercent = Math.round(deviation * 100);
+      anomalies.push({
+        timestamp: sample.timestamp,
+        metric,
+        value,
+        baseline: round2(usual.median),
+        deviationPercent,
+        bucket: baseline.bucket.label,
+        message: `${label}が${baseline.bucket.label}の通常値（${usual.median}${unit}）より${deviationPercent}%${higherIsWorse ? '悪化' : '低下'}`,
+      });
+    }
+  }
+
+  return {
+    options: { thresholdPercent: options.thresholdPercent, lookbackDays: options.lookbackDays },
+    anomalies,
+    periods: findPeriods(anomalies, samples),
+  };
+}
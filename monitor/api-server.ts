@@ -1,76 +1,565 @@
 import express from 'express';
 import cors from 'cors';
 import fs from 'fs';
+import net from 'net';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { loadConfig, saveConfig, isMeasurementMethod, type Config } from './config';
+import { parseBucket, bucketize, mergeBuckets, bucketizeHeartbeats, summarizeRange, compareRanges } from './aggregate';
+import { buildOutageReport } from './outages';
+import { buildSlaReport } from './sla';
+import { buildBreakdown, type BreakdownDimension } from './breakdown';
+import { detectAnomalies, DEFAULT_ANOMALY_OPTIONS } from './anomalies';
+import { buildHeatmap } from './heatmap';
+import { parseTimeSlots, TIME_SLOTS } from '../shared/timeslots';
+import { EXPORT_FORMATS, IMPORT_FORMATS, CONTENT_TYPES, serialize, parseImport, type ExportFormat, type ImportFormat } from './transfer';
+import { renderMetrics } from './metrics';
+import { broadcast, handleEventStream, startEventRelay } from './events';
+import { isEntryPoint, createHttpControl, type SchedulerControl } from './control';
+import { parseSchedule, plannedRuns, estimateRunsPerDay } from './schedule';
+import { budgetStatus, parseBudget } from './budget';
+import { isAuthorizedProbe, parseIngest } from './probe';
+import { loadAlertRules, saveAlertRules, parseAlertRule, notify } from './alerts';
+import { parseAnnotation, annotateResults } from './annotations';
+import {
+  queryMeasurements,
+  queryMeasurementPage,
+  countMeasurements,
+  queryRollups,
+  queryHeartbeats,
+  queryAlertEvents,
+  insertMeasurements,
+  latestMeasurement,
+  clearMeasurements,
+  requestMeasureJob,
+  getMeasureJob,
+  lastScheduledRunAt,
+  queryProbes,
+  queryAnnotations,
+  findAnnotation,
+  saveAnnotation,
+  deleteAnnotation,
+  type MeasurementCursor,
+  type MeasurementQuery,
+  type MeasurementSortKey,
+} from './storage';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 const app = express();
 const PORT = 3001;
+// ビルド済みのダッシュボード（npm run build の出力）
+const DIST_DIR = path.join(__dirname, '..', 'dist');
 
-app.use(cors());
-app.use(express.json());
+const PROBE_CHUNK = Buffer.alloc(64 * 1024);
+const PROBE_MAX_BYTES = 200 * 1024 * 1024;
+const MAX_PAGE_SIZE = 5000;
+const IMPORT_MAX_SIZE = '50mb';
 
-const DATA_FILE = path.join(__dirname, 'speed_data.json');
-const CONFIG_FILE = path.join(__dirname, 'config.json');
+// スケジューラーへの指示の送り先（startApiServer で差し替える）
+let scheduler: SchedulerControl = createHttpControl();
 
-// 設定の読み込み
-function loadConfig() {
-  if (!fs.existsSync(CONFIG_FILE)) {
-    const defaultConfig = { intervalMinutes: 30 };
-    fs.writeFileSync(CONFIG_FILE, JSON.stringify(defaultConfig, null, 2));
-    return defaultConfig;
+app.use(cors({ exposedHeaders: ['X-Next-Cursor', 'X-Total-Count', 'X-Rolled-Up-Samples'] }));
+app.use(express.json({ limit: IMPORT_MAX_SIZE }));
+
+// クエリ文字列の日時をISO形式に正規化（未指定は undefined、不正な値は null）
+function parseTimestamp(value: unknown): string | undefined | null {
+  if (value === undefined) return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// X-Next-Cursor の値（"<timestamp>_<行ID>"）。未指定は undefined、不正な値は null
+function parseCursor(value: unknown): MeasurementCursor | undefined | null {
+  if (value === undefined) return undefined;
+  const match = String(value).match(/^(.+)_(\d+)$/);
+  const timestamp = match ? parseTimestamp(match[1]) : null;
+  return match && timestamp ? { timestamp, id: Number(match[2]) } : null;
+}
+
+// クエリ文字列のプローブID（このホスト自身の計測は空文字）
+function parseProbe(value: unknown): string | undefined {
+  return value === undefined ? undefined : String(value);
+}
+
+// 手動計測を統計に含めるか（include / exclude。未指定は含める）。除外なら true、不正な値は null
+function parseManual(value: unknown): boolean | null {
+  if (value === undefined || value === 'include') return false;
+  return value === 'exclude' ? true : null;
+}
+
+const SORT_KEYS: MeasurementSortKey[] = ['timestamp', 'download', 'upload', 'ping', 'jitter', 'server'];
+
+// 一覧の絞り込み（method / manual / q）と並び順（sort / order）。不正な値はエラーメッセージを返す
+function parseListOptions(query: Record<string, unknown>): Pick<MeasurementQuery, 'method' | 'manual' | 'text' | 'sort' | 'descending'> | string {
+  const { method, manual, q, sort, order } = query;
+  if (method !== undefined && !isMeasurementMethod(method)) {
+    return `Invalid method: ${method}`;
   }
-  try {
-    return JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8'));
-  } catch {
-    return { intervalMinutes: 30 };
+  if (manual !== undefined && manual !== 'include' && manual !== 'only' && manual !== 'exclude') {
+    return 'Invalid manual (must be include, only or exclude)';
+  }
+  if (sort !== undefined && !SORT_KEYS.includes(sort as MeasurementSortKey)) {
+    return `Invalid sort (must be one of ${SORT_KEYS.join(', ')})`;
   }
+  if (order !== undefined && order !== 'asc' && order !== 'desc') {
+    return 'Invalid order (must be asc or desc)';
+  }
+  return {
+    method,
+    manual: manual === 'only' ? true : manual === 'exclude' ? false : undefined,
+    text: q ? String(q) : undefined,
+    sort: sort as MeasurementSortKey | undefined,
+    descending: order === 'desc',
+  };
+}
+
+// 保持期間を過ぎて集計済みになり、1回ごとの値が残っていない計測の件数
+function countRolledUp(query: MeasurementQuery): number {
+  return [...queryRollups('day', query), ...queryRollups('hour', query)].reduce((sum, bucket) => sum + bucket.count, 0);
 }
 
-// 設定の保存
-function saveConfig(config: { intervalMinutes: number }) {
-  fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+// ダッシュボードに返す設定（プローブ認証用のトークンは含めない）
+function publicConfig(config: Config): Omit<Config, 'ingest'> {
+  const { ingest, ...rest } = config;
+  if (!rest.probe) return rest;
+  const { token, ...probe } = rest.probe;
+  return { ...rest, probe };
 }
 
 // データ取得エンドポイント
+// from/to で期間指定、limit/cursor でページング、bucket（例: 5m, 1h, 1d）で集計、probe でプローブを絞り込み
+// 生データは method / manual / q で絞り込み、sort / order で並べ替えられる
 app.get('/api/speed-data', (req, res) => {
   try {
-    if (!fs.existsSync(DATA_FILE)) {
-      return res.json([]);
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    const cursor = parseCursor(req.query.cursor);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'Invalid from/to (must be a date)' });
+    }
+    if (cursor === null) {
+      return res.status(400).json({ error: 'Invalid cursor (use the X-Next-Cursor header value)' });
     }
+    const probe = parseProbe(req.query.probe);
     
-    const data = JSON.parse(fs.readFileSync(DATA_FILE, 'utf-8'));
-    res.json(data);
+    if (req.query.bucket !== undefined) {
+      const bucketMs = parseBucket(String(req.query.bucket));
+      if (bucketMs === null) {
+        return res.status(400).json({ error: 'Invalid bucket (e.g. 5m, 1h, 1d)' });
+      }
+      // 保持期間を過ぎて集計済みになった期間も含めて返す
+      const buckets = [
+        ...queryRollups('day', { from, to, probe }),
+        ...queryRollups('hour', { from, to, probe }),
+        ...bucketize(queryMeasurements({ from, to, probe }), bucketMs),
+      ];
+      return res.json(mergeBuckets(buckets, bucketMs));
+    }
+    
+    const options = parseListOptions(req.query);
+    if (typeof options === 'string') {
+      return res.status(400).json({ error: options });
+    }
+    
+    if (req.query.limit === undefined) {
+      return res.json(queryMeasurements({ from, to, probe, ...options, after: cursor }));
+    }
+    const limit = Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return res.status(400).json({ error: `Invalid limit (must be 1-${MAX_PAGE_SIZE})` });
+    }
+    
+    const { results, next } = queryMeasurementPage({ from, to, probe, ...options, after: cursor, limit });
+    if (next) {
+      res.set('X-Next-Cursor', `${next.timestamp}_${next.id}`);
+    }
+    res.set('X-Total-Count', String(countMeasurements({ from, to, probe, ...options })));
+    res.json(results);
   } catch (error) {
     console.error('Error reading data:', error);
     res.status(500).json({ error: 'Failed to load data' });
   }
 });
 
+// 計測・設定変更のライブ配信（Server-Sent Events）
+app.get('/api/events', handleEventStream);
+
 // 最新データ取得
 app.get('/api/speed-data/latest', (req, res) => {
   try {
-    if (!fs.existsSync(DATA_FILE)) {
-      return res.json(null);
-    }
-    
-    const data = JSON.parse(fs.readFileSync(DATA_FILE, 'utf-8'));
-    const latest = data[data.length - 1];
-    res.json(latest);
+    res.json(latestMeasurement());
   } catch (error) {
     console.error('Error reading latest data:', error);
     res.status(500).json({ error: 'Failed to load latest data' });
   }
 });
 
+// 今すぐ計測（モニタープロセスが拾って実行する）。実行中・待機中の計測があればそれに合流する
+app.post('/api/measure', (req, res) => {
+  try {
+    const { job, merged } = requestMeasureJob();
+    if (!merged) {
+      scheduler.measureNow();
+    }
+    res.status(202).location(`/api/measure/${job.id}`).json({ ...job, merged });
+  } catch (error) {
+    console.error('Error requesting measurement:', error);
+    res.status(500).json({ error: 'Failed to request measurement' });
+  }
+});
+
+// 計測ジョブの進捗と結果
+app.get('/api/measure/:id', (req, res) => {
+  try {
+    const job = getMeasureJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json(job);
+  } catch (error) {
+    console.error('Error reading measure job:', error);
+    res.status(500).json({ error: 'Failed to load measure job' });
+  }
+});
+
+// 疎通確認（DNS・HTTP/TCP・ゲートウェイ）の結果。bucket 指定で平均レイテンシと損失率に集計
+app.get('/api/heartbeats', (req, res) => {
+  try {
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'Invalid from/to (must be a date)' });
+    }
+    
+    const samples = queryHeartbeats({ from, to });
+    if (req.query.bucket !== undefined) {
+      const bucketMs = parseBucket(String(req.query.bucket));
+      if (bucketMs === null) {
+        return res.status(400).json({ error: 'Invalid bucket (e.g. 5m, 1h, 1d)' });
+      }
+      return res.json(bucketizeHeartbeats(samples, bucketMs));
+    }
+    res.json(samples);
+  } catch (error) {
+    console.error('Error reading heartbeats:', error);
+    res.status(500).json({ error: 'Failed to load heartbeats' });
+  }
+});
+
+// 計測履歴のエクスポート（csv はExcelでそのまま開けるBOM付き）
+app.get('/api/export', (req, res) => {
+  try {
+    const format = String(req.query.format ?? 'csv');
+    if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+      return res.status(400).json({ error: `Invalid format (must be one of ${EXPORT_FORMATS.join(', ')})` });
+    }
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'Invalid from/to (must be a date)' });
+    }
+    
+    const date = new Date().toISOString().slice(0, 10);
+    res.set({
+      'Content-Type': CONTENT_TYPES[format as ExportFormat],
+      'Content-Disposition': `attachment; filename="speed-data-${date}.${format}"`,
+    });
+    const records = annotateResults(queryMeasurements({ from, to, probe: parseProbe(req.query.probe) }), queryAnnotations({ from, to }));
+    res.send(serialize(records, format as ExportFormat));
+  } catch (error) {
+    console.error('Error exporting data:', error);
+    res.status(500).json({ error: 'Failed to export data' });
+  }
+});
+
+// 計測履歴のインポート（同じタイムスタンプのレコードはスキップ）
+app.post('/api/import', express.text({ type: () => true, limit: IMPORT_MAX_SIZE }), (req, res) => {
+  try {
+    const format = String(req.query.format ?? '');
+    if (!(IMPORT_FORMATS as readonly string[]).includes(format)) {
+      return res.status(400).json({ error: `Invalid format (must be one of ${IMPORT_FORMATS.join(', ')})` });
+    }
+    
+    // application/json は先に express.json() で解析されている
+    const text = typeof req.body === 'string' ? req.body : JSON.stringify(req.body);
+    let parsed;
+    try {
+      parsed = parseImport(text, format as ImportFormat);
+    } catch {
+      return res.status(400).json({ error: 'Failed to parse body' });
+    }
+    
+    const imported = insertMeasurements(parsed.records);
+    res.json({
+      imported,
+      duplicates: parsed.records.length - imported,
+      errors: parsed.errors,
+    });
+  } catch (error) {
+    console.error('Error importing data:', error);
+    res.status(500).json({ error: 'Failed to import data' });
+  }
+});
+
+// 他のホストで動くプローブからの計測結果の受け付け（Authorization: Bearer <token>）
+app.post('/api/ingest', (req, res) => {
+  try {
+    const { ingest } = loadConfig();
+    if (!ingest || ingest.tokens.length === 0) {
+      return res.status(403).json({ error: 'Ingest is not enabled' });
+    }
+    if (!isAuthorizedProbe(req.get('Authorization'), ingest)) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+    
+    const parsed = parseIngest(req.body);
+    if (typeof parsed === 'string') {
+      return res.status(400).json({ error: parsed });
+    }
+    
+    const imported = insertMeasurements(parsed.records);
+    if (imported > 0) {
+      broadcast('measurement', parsed.records[parsed.records.length - 1]);
+    }
+    res.json({
+      imported,
+      duplicates: parsed.records.length - imported,
+      errors: parsed.errors,
+    });
+  } catch (error) {
+    console.error('Error ingesting data:', error);
+    res.status(500).json({ error: 'Failed to ingest data' });
+  }
+});
+
+// 計測結果のあるプローブの一覧（probe が空文字のものはこのホスト自身）
+app.get('/api/probes', (req, res) => {
+  try {
+    res.json(queryProbes());
+  } catch (error) {
+    console.error('Error reading probes:', error);
+    res.status(500).json({ error: 'Failed to load probes' });
+  }
+});
+
+// 期間内の分布（中央値・p5/p95・標準偏差）。belowMbps を指定するとそれを下回った割合も返す
+app.get('/api/stats/summary', (req, res) => {
+  try {
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'Invalid from/to (must be a date)' });
+    }
+    let belowMbps: number | undefined;
+    if (req.query.belowMbps !== undefined) {
+      belowMbps = Number(req.query.belowMbps);
+      if (!isFinite(belowMbps) || belowMbps <= 0) {
+        return res.status(400).json({ error: 'Invalid belowMbps (must be a positive number)' });
+      }
+    }
+    const excludeManual = parseManual(req.query.manual);
+    if (excludeManual === null) {
+      return res.status(400).json({ error: 'Invalid manual (must be include or exclude)' });
+    }
+    const results = queryMeasurements({ from, to, probe: parseProbe(req.query.probe) });
+    res.json(summarizeRange(results, { belowMbps, excludeManual, timeSlots: loadConfig().timeSlots ?? TIME_SLOTS }));
+  } catch (error) {
+    console.error('Error building summary:', error);
+    res.status(500).json({ error: 'Failed to build summary' });
+  }
+});
+
+// 2つの期間の比較（baselineFrom/baselineTo → from/to）
+app.get('/api/stats/compare', (req, res) => {
+  try {
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    const baselineFrom = parseTimestamp(req.query.baselineFrom);
+    const baselineTo = parseTimestamp(req.query.baselineTo);
+    if (from === null || to === null || baselineFrom === null || baselineTo === null) {
+      return res.status(400).json({ error: 'Invalid from/to/baselineFrom/baselineTo (must be a date)' });
+    }
+    const excludeManual = parseManual(req.query.manual);
+    if (excludeManual === null) {
+      return res.status(400).json({ error: 'Invalid manual (must be include or exclude)' });
+    }
+    const probe = parseProbe(req.query.probe);
+    const select = (range: { from?: string; to?: string }) =>
+      queryMeasurements({ ...range, probe }).filter(r => !excludeManual || !r.manual);
+    res.json(compareRanges(
+      select({ from: baselineFrom, to: baselineTo }),
+      select({ from, to }),
+      loadConfig().timeSlots ?? TIME_SLOTS,
+    ));
+  } catch (error) {
+    console.error('Error comparing periods:', error);
+    res.status(500).json({ error: 'Failed to compare periods' });
+  }
+});
+
+// 曜日×時ごとの中央値（ヒートマップ用）
+app.get('/api/stats/heatmap', (req, res) => {
+  try {
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'Invalid from/to (must be a date)' });
+    }
+    const probe = parseProbe(req.query.probe);
+    res.json(buildHeatmap(queryMeasurements({ from, to, probe }), queryRollups('hour', { from, to, probe })));
+  } catch (error) {
+    console.error('Error building heatmap:', error);
+    res.status(500).json({ error: 'Failed to build heatmap' });
+  }
+});
+
+// 計測サーバー別・ISP別の平均と p10/p90（from/to/probe で絞り込み）
+// 集計済みの期間はサーバー・ISPが残っていないため、含められなかった件数をヘッダーで返す
+function handleBreakdown(dimension: BreakdownDimension) {
+  return (req: express.Request, res: express.Response) => {
+    try {
+      const from = parseTimestamp(req.query.from);
+      const to = parseTimestamp(req.query.to);
+      if (from === null || to === null) {
+        return res.status(400).json({ error: 'Invalid from/to (must be a date)' });
+      }
+      const probe = parseProbe(req.query.probe);
+      res.set('X-Rolled-Up-Samples', String(countRolledUp({ from, to, probe })));
+      res.json(buildBreakdown(queryMeasurements({ from, to, probe }), dimension));
+    } catch (error) {
+      console.error('Error building breakdown:', error);
+      res.status(500).json({ error: 'Failed to build breakdown' });
+    }
+  };
+}
+
+app.get('/api/stats/by-server', handleBreakdown('server'));
+app.get('/api/stats/by-isp', handleBreakdown('isp'));
+
+// 過去の同じ曜日・時間帯と比べて大きく悪化した計測（threshold: 悪化率%、lookbackDays: 基準にする日数）
+app.get('/api/anomalies', (req, res) => {
+  try {
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'Invalid from/to (must be a date)' });
+    }
+    const thresholdPercent = Number(req.query.threshold ?? DEFAULT_ANOMALY_OPTIONS.thresholdPercent);
+    if (!isFinite(thresholdPercent) || thresholdPercent <= 0 || thresholdPercent >= 100) {
+      return res.status(400).json({ error: 'Invalid threshold (must be 1-99 percent)' });
+    }
+    const requestedDays = Number(req.query.lookbackDays ?? DEFAULT_ANOMALY_OPTIONS.lookbackDays);
+    if (!Number.isInteger(requestedDays) || requestedDays < 7 || requestedDays > 365) {
+      return res.status(400).json({ error: 'Invalid lookbackDays (must be 7-365 days)' });
+    }
+    
+    // 基準は1回ごとの計測から求めるため、生データの保持期間より前には遡れない
+    const config = loadConfig();
+    const lookbackDays = Math.min(requestedDays, config.retention.rawDays);
+    // 期間の先頭でも比べられるよう、基準にする日数だけ遡って取得する
+    const historyFrom = from && new Date(new Date(from).getTime() - lookbackDays * 24 * 60 * 60 * 1000).toISOString();
+    const history = queryMeasurements({ from: historyFrom, to, probe: parseProbe(req.query.probe) });
+    const slots = config.timeSlots ?? DEFAULT_ANOMALY_OPTIONS.slots;
+    res.json(detectAnomalies(history, from, { thresholdPercent, lookbackDays, slots }));
+  } catch (error) {
+    console.error('Error detecting anomalies:', error);
+    res.status(500).json({ error: 'Failed to detect anomalies' });
+  }
+});
+
+// 障害期間（連続した計測失敗）とダウンタイム・可用性
+app.get('/api/outages', (req, res) => {
+  try {
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'Invalid from/to (must be a date)' });
+    }
+    res.json(buildOutageReport(from, to));
+  } catch (error) {
+    console.error('Error reading outages:', error);
+    res.status(500).json({ error: 'Failed to load outages' });
+  }
+});
+
+// 契約プランに対するSLA達成状況
+app.get('/api/reports/sla', (req, res) => {
+  try {
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'Invalid from/to (must be a date)' });
+    }
+    
+    const probe = parseProbe(req.query.probe);
+    
+    const { plan, timeSlots } = loadConfig();
+    if (!plan) {
+      return res.status(404).json({ error: 'Service plan is not configured' });
+    }
+    // 達成率は1回ごとの計測で判定するため、集計済みの期間は件数だけ返して計算から外す
+    const rolledUp = countRolledUp({ from, to, probe });
+    res.json(buildSlaReport(queryMeasurements({ from, to, probe }), plan, timeSlots, queryAnnotations({ from, to }), rolledUp));
+  } catch (error) {
+    console.error('Error building SLA report:', error);
+    res.status(500).json({ error: 'Failed to build SLA report' });
+  }
+});
+
+// 通信量の上限に対する使用状況
+app.get('/api/budget', (req, res) => {
+  try {
+    const status = budgetStatus(loadConfig());
+    if (!status) {
+      return res.status(404).json({ error: 'Data budget is not configured' });
+    }
+    res.json(status);
+  } catch (error) {
+    console.error('Error reading data budget:', error);
+    res.status(500).json({ error: 'Failed to load data budget' });
+  }
+});
+
+// 計測予定のプレビュー。POST ではボディの intervalMinutes / schedule（保存前の編集内容）で計算する
+function handleSchedulePreview(req: express.Request, res: express.Response) {
+  try {
+    const config = loadConfig();
+    const { intervalMinutes, schedule } = req.method === 'POST' ? req.body ?? {} : {};
+    if (intervalMinutes !== undefined) {
+      if (typeof intervalMinutes !== 'number' || intervalMinutes < 1 || intervalMinutes > 1440) {
+        return res.status(400).json({ error: 'Invalid interval (must be 1-1440 minutes)' });
+      }
+      config.intervalMinutes = intervalMinutes;
+    }
+    if (schedule !== undefined) {
+      const parsed = schedule === null ? [] : parseSchedule(schedule);
+      if (typeof parsed === 'string') {
+        return res.status(400).json({ error: parsed });
+      }
+      config.schedule = parsed;
+    }
+
+    const count = Math.min(Number(req.query.count) || 10, 100);
+    const lastRun = lastScheduledRunAt();
+    const runs = plannedRuns(config, Date.now(), lastRun ? new Date(lastRun).getTime() : undefined, count);
+    res.json({
+      runs: runs.map(time => new Date(time).toISOString()),
+      runsPerDay: estimateRunsPerDay(config),
+    });
+  } catch (error) {
+    console.error('Error building schedule preview:', error);
+    res.status(500).json({ error: 'Failed to build schedule preview' });
+  }
+}
+
+app.get('/api/schedule/preview', handleSchedulePreview);
+app.post('/api/schedule/preview', handleSchedulePreview);
+
 // 設定取得エンドポイント
 app.get('/api/config', (req, res) => {
   try {
-    const config = loadConfig();
-    res.json(config);
+    res.json(publicConfig(loadConfig()));
   } catch (error) {
     console.error('Error reading config:', error);
     res.status(500).json({ error: 'Failed to load config' });
@@ -80,27 +569,370 @@ app.get('/api/config', (req, res) => {
 // 設定更新エンドポイント
 app.put('/api/config', (req, res) => {
   try {
-    const { intervalMinutes } = req.body;
+    const { intervalMinutes, schedule, method, fallback, ookla, selfHosted, retention, heartbeat, notifications, plan, timeSlots, budget } = req.body;
+    const config = loadConfig();
+    
+    if (intervalMinutes !== undefined) {
+      if (typeof intervalMinutes !== 'number' || intervalMinutes < 1 || intervalMinutes > 1440) {
+        return res.status(400).json({ error: 'Invalid interval (must be 1-1440 minutes)' });
+      }
+      config.intervalMinutes = intervalMinutes;
+    }
+    
+    if (schedule !== undefined) {
+      const parsed = schedule === null ? [] : parseSchedule(schedule);
+      if (typeof parsed === 'string') {
+        return res.status(400).json({ error: parsed });
+      }
+      config.schedule = parsed.length > 0 ? parsed : undefined;
+    }
+    
+    if (method !== undefined) {
+      if (!isMeasurementMethod(method)) {
+        return res.status(400).json({ error: `Invalid method: ${method}` });
+      }
+      config.method = method;
+    }
+    
+    if (fallback !== undefined) {
+      if (!Array.isArray(fallback) || !fallback.every(isMeasurementMethod)) {
+        return res.status(400).json({ error: 'Invalid fallback (must be an array of methods)' });
+      }
+      config.fallback = fallback;
+    }
+    
+    if (ookla !== undefined) {
+      const isServerId = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+      if (typeof ookla !== 'object' || ookla === null
+        || (ookla.serverId !== undefined && ookla.serverId !== null && !isServerId(ookla.serverId))
+        || (ookla.excludeServerIds !== undefined
+          && (!Array.isArray(ookla.excludeServerIds) || !ookla.excludeServerIds.every(isServerId)))) {
+        return res.status(400).json({ error: 'Invalid ookla settings (server ids must be positive integers)' });
+      }
+      // serverId: null で固定を解除する
+      const { serverId, ...merged } = { ...config.ookla, ...ookla };
+      config.ookla = serverId === null || serverId === undefined ? merged : { ...merged, serverId };
+    }
+    
+    if (selfHosted !== undefined) {
+      const isOptionalCount = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) > 0);
+      if (typeof selfHosted !== 'object' || selfHosted === null) {
+        return res.status(400).json({ error: 'Invalid selfHosted settings' });
+      }
+      // 既知のキーだけを取り込む
+      const { url, downloadBytes, uploadBytes, latencySamples } = { ...config.selfHosted, ...selfHosted };
+      if ((url !== undefined && typeof url !== 'string')
+        || !isOptionalCount(downloadBytes) || !isOptionalCount(uploadBytes) || !isOptionalCount(latencySamples)) {
+        return res.status(400).json({ error: 'Invalid selfHosted settings' });
+      }
+      config.selfHosted = { url, downloadBytes, uploadBytes, latencySamples };
+    }
+    
+    if (retention !== undefined) {
+      const { rawDays, hourlyMonths } = { ...config.retention, ...retention };
+      if (!Number.isInteger(rawDays) || rawDays < 1 || rawDays > 3650) {
+        return res.status(400).json({ error: 'Invalid retention.rawDays (must be 1-3650 days)' });
+      }
+      if (!Number.isInteger(hourlyMonths) || hourlyMonths < 0 || hourlyMonths > 120) {
+        return res.status(400).json({ error: 'Invalid retention.hourlyMonths (must be 0-120 months)' });
+      }
+      config.retention = { rawDays, hourlyMonths };
+    }
+    
+    if (heartbeat !== undefined) {
+      if (typeof heartbeat !== 'object' || heartbeat === null) {
+        return res.status(400).json({ error: 'Invalid heartbeat settings' });
+      }
+      // 既知のキーだけを取り込む（gateway: null または空文字で自動検出に戻す）
+      const { enabled, intervalSeconds, dnsHost, targets, gateway } = { ...config.heartbeat, ...heartbeat };
+      if (typeof enabled !== 'boolean'
+        || !Number.isInteger(intervalSeconds) || intervalSeconds < 5 || intervalSeconds > 3600
+        || typeof dnsHost !== 'string'
+        || !Array.isArray(targets) || !targets.every((t: unknown) => typeof t === 'string')) {
+        return res.status(400).json({ error: 'Invalid heartbeat settings (intervalSeconds must be 5-3600)' });
+      }
+      // ping の引数になるので IP アドレスのみ受け付ける
+      if (gateway !== undefined && gateway !== null && gateway !== ''
+        && (typeof gateway !== 'string' || net.isIP(gateway) === 0)) {
+        return res.status(400).json({ error: 'Invalid heartbeat.gateway (must be an IPv4 or IPv6 address)' });
+      }
+      config.heartbeat = { enabled, intervalSeconds, dnsHost, targets, ...(gateway ? { gateway } : {}) };
+    }
+    
+    if (notifications !== undefined) {
+      const merged = { ...config.notifications, ...notifications };
+      if (typeof merged.desktop !== 'boolean'
+        || !Array.isArray(merged.webhooks) || !merged.webhooks.every((url: unknown) => typeof url === 'string' && /^https?:\/\//.test(url))) {
+        return res.status(400).json({ error: 'Invalid notifications (webhooks must be http(s) URLs)' });
+      }
+      config.notifications = merged;
+    }
+    
+    if (plan !== undefined) {
+      const isPositive = (value: unknown) => typeof value === 'number' && value > 0;
+      if (plan !== null && (!isPositive(plan.downloadMbps) || !isPositive(plan.uploadMbps)
+        || !isPositive(plan.minDownloadMbps) || !isPositive(plan.maxPingMs)
+        || (plan.minUploadMbps !== undefined && !isPositive(plan.minUploadMbps)))) {
+        return res.status(400).json({ error: 'Invalid plan (speeds and latency must be positive numbers)' });
+      }
+      config.plan = plan ?? undefined;
+    }
+    
+    if (timeSlots !== undefined) {
+      // null で既定の区切りに戻す
+      const parsed = timeSlots === null ? undefined : parseTimeSlots(timeSlots);
+      if (typeof parsed === 'string') {
+        return res.status(400).json({ error: parsed });
+      }
+      config.timeSlots = parsed;
+    }
     
-    if (typeof intervalMinutes !== 'number' || intervalMinutes < 1 || intervalMinutes > 1440) {
-      return res.status(400).json({ error: 'Invalid interval (must be 1-1440 minutes)' });
+    if (budget !== undefined) {
+      const parsed = budget === null ? undefined : parseBudget(budget);
+      if (typeof parsed === 'string') {
+        return res.status(400).json({ error: parsed });
+      }
+      config.budget = parsed;
     }
     
-    saveConfig({ intervalMinutes });
-    console.log(`計測間隔を ${intervalMinutes} 分に変更しました`);
-    res.json({ success: true, intervalMinutes });
+    saveConfig(config);
+    broadcast('config-changed', publicConfig(config));
+    scheduler.reschedule();
+    console.log(`計測設定を更新しました: ${config.intervalMinutes}分間隔, 方式 ${config.method}`);
+    res.json({ success: true, ...publicConfig(config) });
   } catch (error) {
     console.error('Error updating config:', error);
     res.status(500).json({ error: 'Failed to update config' });
   }
 });
 
+// 出来事の一覧（from/to に一部でも重なるもの）
+app.get('/api/annotations', (req, res) => {
+  try {
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'Invalid from/to (must be a date)' });
+    }
+    res.json(queryAnnotations({ from, to }));
+  } catch (error) {
+    console.error('Error reading annotations:', error);
+    res.status(500).json({ error: 'Failed to load annotations' });
+  }
+});
+
+// 出来事の記録
+app.post('/api/annotations', (req, res) => {
+  try {
+    const annotation = parseAnnotation(req.body);
+    if (typeof annotation === 'string') {
+      return res.status(400).json({ error: annotation });
+    }
+    saveAnnotation(annotation);
+    broadcast('annotations-changed', annotation);
+    res.status(201).json(annotation);
+  } catch (error) {
+    console.error('Error creating annotation:', error);
+    res.status(500).json({ error: 'Failed to create annotation' });
+  }
+});
+
+// 出来事の更新（endTime: null で終了時刻を消す）
+app.put('/api/annotations/:id', (req, res) => {
+  try {
+    const existing = findAnnotation(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Annotation not found' });
+    }
+    const annotation = parseAnnotation({ ...existing, ...req.body }, existing.id, existing.createdAt);
+    if (typeof annotation === 'string') {
+      return res.status(400).json({ error: annotation });
+    }
+    saveAnnotation(annotation);
+    broadcast('annotations-changed', annotation);
+    res.json(annotation);
+  } catch (error) {
+    console.error('Error updating annotation:', error);
+    res.status(500).json({ error: 'Failed to update annotation' });
+  }
+});
+
+// 出来事の削除
+app.delete('/api/annotations/:id', (req, res) => {
+  try {
+    if (!deleteAnnotation(req.params.id)) {
+      return res.status(404).json({ error: 'Annotation not found' });
+    }
+    broadcast('annotations-changed', { id: req.params.id });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting annotation:', error);
+    res.status(500).json({ error: 'Failed to delete annotation' });
+  }
+});
+
+// アラートルール一覧
+app.get('/api/alerts', (req, res) => {
+  try {
+    res.json(loadAlertRules());
+  } catch (error) {
+    console.error('Error reading alert rules:', error);
+    res.status(500).json({ error: 'Failed to load alert rules' });
+  }
+});
+
+// アラートの発火・回復履歴（新しい順）
+app.get('/api/alerts/history', (req, res) => {
+  try {
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : 100;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return res.status(400).json({ error: `Invalid limit (must be 1-${MAX_PAGE_SIZE})` });
+    }
+    res.json(queryAlertEvents({ limit }));
+  } catch (error) {
+    console.error('Error reading alert history:', error);
+    res.status(500).json({ error: 'Failed to load alert history' });
+  }
+});
+
+// アラートルール作成
+app.post('/api/alerts', (req, res) => {
+  try {
+    const rule = parseAlertRule(req.body);
+    if (typeof rule === 'string') {
+      return res.status(400).json({ error: rule });
+    }
+    saveAlertRules([...loadAlertRules(), rule]);
+    res.status(201).json(rule);
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    res.status(500).json({ error: 'Failed to create alert rule' });
+  }
+});
+
+// 通知先にテスト通知を送り、Webhookごとの送信結果を返す
+// body の url を指定すると設定の通知先の代わりにそのURLだけへ送る（受信側の確認用）
+app.post('/api/alerts/test', async (req, res) => {
+  try {
+    const url = req.body?.url;
+    if (url !== undefined && (typeof url !== 'string' || !/^https?:\/\//i.test(url))) {
+      return res.status(400).json({ error: 'Invalid url (must be http or https)' });
+    }
+    
+    const event = {
+      ruleId: 'test',
+      ruleName: 'テスト通知',
+      state: 'fired' as const,
+      timestamp: new Date().toISOString(),
+      value: 0,
+      message: '🔔 ネット速度モニターからのテスト通知です',
+    };
+    const options = url ? { webhooks: [url], desktop: false } : loadConfig().notifications;
+    const deliveries = await notify(event, options);
+    res.json({ success: deliveries.every(d => d.ok), deliveries });
+  } catch (error) {
+    console.error('Error sending test notification:', error);
+    res.status(500).json({ error: 'Failed to send test notification' });
+  }
+});
+
+// アラートルール更新
+app.put('/api/alerts/:id', (req, res) => {
+  try {
+    const rules = loadAlertRules();
+    const index = rules.findIndex(r => r.id === req.params.id);
+    if (index === -1) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+    const rule = parseAlertRule({ ...rules[index], ...req.body }, rules[index].id);
+    if (typeof rule === 'string') {
+      return res.status(400).json({ error: rule });
+    }
+    rules[index] = rule;
+    saveAlertRules(rules);
+    res.json(rule);
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    res.status(500).json({ error: 'Failed to update alert rule' });
+  }
+});
+
+// アラートルール削除
+app.delete('/api/alerts/:id', (req, res) => {
+  try {
+    const rules = loadAlertRules();
+    if (!rules.some(r => r.id === req.params.id)) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+    saveAlertRules(rules.filter(r => r.id !== req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    res.status(500).json({ error: 'Failed to delete alert rule' });
+  }
+});
+
+// Prometheus / OpenMetrics 形式のメトリクス
+app.get('/metrics', (req, res) => {
+  try {
+    const openMetrics = (req.get('Accept') ?? '').includes('application/openmetrics-text');
+    res.set('Content-Type', openMetrics
+      ? 'application/openmetrics-text; version=1.0.0; charset=utf-8'
+      : 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(renderMetrics(loadConfig(), openMetrics));
+  } catch (error) {
+    console.error('Error rendering metrics:', error);
+    res.status(500).json({ error: 'Failed to render metrics' });
+  }
+});
+
+// 自己ホスト計測用: 指定バイト数のダミーデータを返す
+app.get('/api/probe/download', (req, res) => {
+  const bytes = Number(req.query.bytes);
+  if (!Number.isInteger(bytes) || bytes < 1 || bytes > PROBE_MAX_BYTES) {
+    return res.status(400).json({ error: `Invalid bytes (must be 1-${PROBE_MAX_BYTES})` });
+  }
+  
+  res.set({
+    'Content-Type': 'application/octet-stream',
+    'Content-Length': String(bytes),
+    'Cache-Control': 'no-store',
+  });
+  
+  let remaining = bytes;
+  const writeChunks = () => {
+    while (remaining > 0) {
+      const size = Math.min(remaining, PROBE_CHUNK.length);
+      remaining -= size;
+      if (!res.write(PROBE_CHUNK.subarray(0, size))) {
+        res.once('drain', writeChunks);
+        return;
+      }
+    }
+    res.end();
+  };
+  writeChunks();
+});
+
+// 自己ホスト計測用: 受信したバイト数を返す
+app.post('/api/probe/upload', (req, res) => {
+  let received = 0;
+  req.on('data', (chunk: Buffer) => {
+    received += chunk.length;
+  });
+  req.on('end', () => {
+    res.json({ received });
+  });
+  req.on('error', (error) => {
+    console.error('Error receiving probe upload:', error);
+    res.status(500).json({ error: 'Failed to receive upload' });
+  });
+});
+
 // データ削除エンドポイント（オプション）
 app.delete('/api/speed-data', (req, res) => {
   try {
-    if (fs.existsSync(DATA_FILE)) {
-      fs.unlinkSync(DATA_FILE);
-    }
+    clearMeasurements();
     res.json({ success: true });
   } catch (error) {
     console.error('Error deleting data:', error);
@@ -108,8 +940,28 @@ app.delete('/api/speed-data', (req, res) => {
   }
 });
 
-app.listen(PORT, () => {
-  console.log(`🚀 API Server running on http://localhost:${PORT}`);
-  console.log(`📊 Data endpoint: http://localhost:${PORT}/api/speed-data`);
-  console.log(`⚙️  Config endpoint: http://localhost:${PORT}/api/config`);
-});
+// 同じプロセスのスケジューラー（npm start）か、別プロセスのモニターへの制御チャネルを受け取って起動する
+export function startApiServer(control: SchedulerControl) {
+  scheduler = control;
+
+  if (fs.existsSync(DIST_DIR)) {
+    app.use(express.static(DIST_DIR));
+    // /history や /measurements/... を直接開いた・再読み込みした場合もダッシュボードを返す（ルーティングはブラウザ側）
+    app.get(/^(?!\/api(\/|$)).*/, (req, res) => {
+      res.sendFile(path.join(DIST_DIR, 'index.html'));
+    });
+  }
+
+  startEventRelay();
+
+  app.listen(PORT, () => {
+    console.log(`🚀 API Server running on http://localhost:${PORT}`);
+    console.log(`📊 Data endpoint: http://localhost:${PORT}/api/speed-data`);
+    console.log(`⚙️  Config endpoint: http://localhost:${PORT}/api/config`);
+  });
+}
+
+// `npm run server` で単独起動した場合は、別プロセスのモニターにHTTPで指示を送る
+if (isEntryPoint(import.meta.url)) {
+  startApiServer(createHttpControl());
+}
@@ -0,0 +1,67 @@
+import type { SpeedResult } from './providers';
+import { round2, percentile, mean } from '../shared/stats';
+
+export type BreakdownDimension = 'server' | 'isp';
+
+export interface MetricSpread {
+  avg: number;
+  p10: number;
+  p90: number;
+}
+
+export interface BreakdownGroup {
+  // サーバー名 / ISP名（記録されていない計測は null）
+  key: string | null;
+  count: number;
+  // 最後に使われたサーバーのIDと場所（サーバー別のみ。固定・除外の設定に使う）
+  serverId?: number;
+  serverLocation?: string;
+  lastSeen: string;
+  download: MetricSpread;
+  upload: MetricSpread;
+  ping: MetricSpread;
+  jitter: MetricSpread;
+}
+
+function spread(values: number[]): MetricSpread {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    avg: round2(mean(values)),
+    p10: round2(percentile(sorted, 10)),
+    p90: round2(percentile(sorted, 90)),
+  };
+}
+
+// 計測サーバー・ISPごとに平均と p10/p90 をまとめ、件数の多い順に返す
+export function buildBreakdown(results: SpeedResult[], dimension: BreakdownDimension): BreakdownGroup[] {
+  const groups = new Map<string | null, SpeedResult[]>();
+  for (const result of results) {
+    const key = result[dimension] ?? null;
+    const group = groups.get(key);
+    if (group) {
+      group.push(result);
+    } else {
+      groups.set(key, [result]);
+    }
+  }
+
+  return Array.from(groups.keys())
+    .map(key => {
+      const group = groups.get(key)!;
+      const latest = group[group.length - 1];
+      const lastWithId = group.filter(r => r.serverId !== undefined).pop();
+      return {
+        key,
+        count: group.length,
+        ...(dimension === 'server' && lastWithId
+          ? { serverId: lastWithId.serverId, serverLocation: lastWithId.serverLocation }
+          : {}),
+        lastSeen: latest.timestamp,
+        download: spread(group.map(r => r.download)),
+        upload: spread(group.map(r => r.upload)),
+        ping: spread(group.map(r => r.ping)),
+        jitter: spread(group.map(r => r.jitter)),
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,144 @@
+import { isMeasurementMethod, type Config, type DataBudget } from './config';
+import type { MeasurementMethod, SpeedResult } from './providers';
+import { round2 } from '../shared/stats';
+import { addDataUsage, dataUsageSince, averageMeasurementBytes } from './storage';
+
+const BYTES_PER_MB = 1000 * 1000;
+// 実績がない場合の1回あたりの通信量の目安
+export const ESTIMATED_BYTES_PER_RUN = 150 * BYTES_PER_MB;
+
+export type BudgetState = 'ok' | 'throttled' | 'exhausted';
+
+export interface BudgetStatus {
+  budget: DataBudget;
+  periodStart: string;
+  periodEnd: string;
+  limitBytes: number;
+  usedBytes: number;
+  remainingBytes: number;
+  usedPercent: number;
+  state: BudgetState;
+  // 現在の状態で定期計測に使う計測方式
+  method: MeasurementMethod;
+  bytesPerRun: number;
+  // 残りを期間末まで持たせるための最短間隔（stretch の節約モード時のみ）
+  minIntervalMinutes: number | null;
+}
+
+function localDay(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// ローカル時刻での集計期間（月の場合は resetDay から翌月の resetDay まで）
+export function budgetPeriod(budget: DataBudget, now: Date): { start: Date; end: Date } {
+  if (budget.period === 'day') {
+    return {
+      start: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
+      end: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1),
+    };
+  }
+  const resetDay = budget.resetDay ?? 1;
+  const month = now.getDate() >= resetDay ? now.getMonth() : now.getMonth() - 1;
+  return {
+    start: new Date(now.getFullYear(), month, resetDay),
+    end: new Date(now.getFullYear(), month + 1, resetDay),
+  };
+}
+
+// 計測1回分の通信量を記録する。量が分からない場合は目安の値で数えておく
+export function recordDataUsage(result: SpeedResult, now: Date = new Date()) {
+  const bytes = result.downloadBytes !== undefined || result.uploadBytes !== undefined
+    ? (result.downloadBytes ?? 0) + (result.uploadBytes ?? 0)
+    : ESTIMATED_BYTES_PER_RUN;
+  addDataUsage(localDay(now), bytes);
+}
+
+export function budgetStatus(config: Config, now: number = Date.now()): BudgetStatus | null {
+  const { budget } = config;
+  if (!budget) return null;
+
+  const { start, end } = budgetPeriod(budget, new Date(now));
+  const limitBytes = budget.limitMB * BYTES_PER_MB;
+  const usedBytes = dataUsageSince(localDay(start));
+  const remainingBytes = Math.max(0, limitBytes - usedBytes);
+  const usedPercent = round2(usedBytes / limitBytes * 100);
+  const throttled = usedPercent >= budget.throttlePercent;
+
+  const method = throttled && budget.action === 'switch' && budget.lightMethod ? budget.lightMethod : config.method;
+  const bytesPerRun = averageMeasurementBytes(method) ?? ESTIMATED_BYTES_PER_RUN;
+  const state: BudgetState = remainingBytes < bytesPerRun ? 'exhausted' : throttled ? 'throttled' : 'ok';
+  const minIntervalMinutes = state === 'throttled' && budget.action === 'stretch'
+    ? Math.ceil((end.getTime() - now) / (remainingBytes / bytesPerRun) / 60000)
+    : null;
+
+  return {
+    budget,
+    periodStart: start.toISOString(),
+    periodEnd: end.toISOString(),
+    limitBytes,
+    usedBytes,
+    remainingBytes,
+    usedPercent,
+    state,
+    method,
+    bytesPerRun: Math.round(bytesPerRun),
+    minIntervalMinutes,
+  };
+}
+
+// 節約モードで軽い計測方式に切り替えた設定
+export function applyBudget(config: Config, status: BudgetStatus | null): Config {
+  return status && status.method !== config.method ? { ...config, method: status.method } : config;
+}
+
+// 上限に応じて次回の定期計測を遅らせる時刻（制限なしなら 0）
+export function earliestNextRun(status: BudgetStatus | null, lastRunAt: number): number {
+  if (status?.state === 'exhausted') return new Date(status.periodEnd).getTime();
+  if (status?.minIntervalMinutes) return lastRunAt + status.minIntervalMinutes * 60 * 1000;
+  return 0;
+}
+
+// リクエストボディの上限設定を検証する（不正ならエラーメッセージを返す）
+export function parseBudget(value: any): DataBudget | string {
+  if (typeof value !== 'object' || value === null) {
+    return 'Invalid budget';
+  }
+  if (value.period !== 'day' && value.period !== 'month') {
+    return 'Invalid budget.period (must be day or month)';
+  }
+  if (typeof value.limitMB !== 'number' || value.limitMB <= 0) {
+    return 'Invalid budget.limitMB (must be a positive number)';
+  }
+  const throttlePercent = value.throttlePercent ?? 80;
+  if (typeof throttlePercent !== 'number' || throttlePercent <= 0 || throttlePercent > 100) {
+    return 'Invalid budget.throttlePercent (must be 1-100)';
+  }
+  const action = value.action ?? 'stretch';
+  if (action !== 'stretch' && action !== 'switch') {
+    return 'Invalid budget.action (must be stretch or switch)';
+  }
+  if (value.lightMethod !== undefined && !isMeasurementMethod(value.lightMethod)) {
+    return `Invalid budget.lightMethod: ${value.lightMethod}`;
+  }
+  if (action === 'switch' && value.lightMethod === undefined) {
+    return 'budget.lightMethod is required when action is switch';
+  }
+  if (value.resetDay !== undefined && (!Number.isInteger(value.resetDay) || value.resetDay < 1 || value.resetDay > 28)) {
+    return 'Invalid budget.resetDay (must be 1-28)';
+  }
+
+  return {
+    period: value.period,
+    limitMB: value.limitMB,
+    throttlePercent,
+    action,
+    ...(value.lightMethod !== undefined ? { lightMethod: value.lightMethod } : {}),
+    ...(value.resetDay !== undefined ? { resetDay: value.resetDay } : {}),
+  };
+}
+
+export function formatBudget(budget: DataBudget): string {
+  const action = budget.action === 'switch' ? `${budget.lightMethod} に切り替え` : '間隔を延長';
+  return `${budget.period === 'day' ? '1日' : '1ヶ月'}あたり${budget.limitMB}MB（${budget.throttlePercent}%で${action}）`;
+}
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { MEASUREMENT_METHODS, type MeasurementMethod } from './providers/base';
+import type { TimeSlot } from '../shared/timeslots';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const CONFIG_FILE = path.join(__dirname, 'config.json');
+
+// Ookla の計測サーバーの選び方（未指定なら CLI が自動で選ぶ）
+export interface OoklaOptions {
+  // 常にこのサーバーIDで計測する
+  serverId?: number;
+  // 自動選択の候補から外すサーバーID
+  excludeServerIds?: number[];
+}
+
+export interface NetflixOptions {
+  apiUrl?: string;
+  token?: string;
+  urlCount?: number;
+}
+
+export interface SelfHostedOptions {
+  url?: string;
+  downloadBytes?: number;
+  uploadBytes?: number;
+  latencySamples?: number;
+}
+
+// 速度計測の合間に行う軽量な疎通確認
+export interface HeartbeatOptions {
+  enabled: boolean;
+  intervalSeconds: number;
+  dnsHost: string;
+  // http(s)://... はHEADリクエスト、host:port はTCP接続
+  targets: string[];
+  // 未指定なら自動検出（Linux/WSL2のみ）
+  gateway?: string;
+}
+
+// アラート発火・回復時の通知先
+export interface NotificationOptions {
+  // Slack / Discord 互換のWebhook URL
+  webhooks: string[];
+  desktop: boolean;
+}
+
+// 契約プラン（SLAレポートの基準）
+export interface ServicePlan {
+  downloadMbps: number;
+  uploadMbps: number;
+  // 最低保証速度
+  minDownloadMbps: number;
+  minUploadMbps?: number;
+  maxPingMs: number;
+}
+
+// 生データ → 1時間集計 → 日次集計（無期限）の順に間引いて保持する
+export interface RetentionPolicy {
+  rawDays: number;
+  hourlyMonths: number;
+}
+
+// 曜日・時間帯ごとの計測間隔（どれにも当てはまらない時間は intervalMinutes）
+export interface ScheduleWindow {
+  // 0 = 日曜。省略時は毎日
+  days?: number[];
+  // "HH:MM"（ローカル時刻）。終了が開始以前なら日付をまたぐ
+  start: string;
+  end: string;
+  // true ならこの時間帯は計測しない
+  skip?: boolean;
+  intervalMinutes?: number;
+  // 予定時刻から最大この分数だけランダムに遅らせる
+  jitterMinutes?: number;
+}
+
+// 計測の通信量の上限（従量制・テザリング回線向け）
+export interface DataBudget {
+  period: 'day' | 'month';
+  limitMB: number;
+  // 使用率（%）がこれを超えたら節約モードにする
+  throttlePercent: number;
+  // 節約モードの動作: 間隔を延ばす / 軽い計測方式に切り替える
+  action: 'stretch' | 'switch';
+  lightMethod?: MeasurementMethod;
+  // 月の集計開始日（1〜28、省略時は1日）
+  resetDay?: number;
+}
+
+// 複数ホストで計測する場合の、このホスト（プローブ）の設定
+export interface ProbeOptions {
+  id: string;
+  // 回線の区別（例: "自宅光", "オフィス", "VPS"）
+  network?: string;
+  // 計測結果を送る集約用APIサーバー（例: http://central.local:3001）とトークン
+  centralUrl?: string;
+  token?: string;
+}
+
+// 他のプローブからの結果を受け付けるトークン（集約サーバー側）
+export interface IngestOptions {
+  tokens: string[];
+}
+
+export interface Config {
+  intervalMinutes: number;
+  schedule?: ScheduleWindow[];
+  method: MeasurementMethod;
+  fallback: MeasurementMethod[];
+  ookla?: OoklaOptions;
+  netflix?: NetflixOptions;
+  selfHosted?: SelfHostedOptions;
+  retention: RetentionPolicy;
+  heartbeat: HeartbeatOptions;
+  notifications: NotificationOptions;
+  plan?: ServicePlan;
+  // 時間帯別の集計の区切り（未指定は TIME_SLOTS）
+  timeSlots?: TimeSlot[];
+  budget?: DataBudget;
+  probe?: ProbeOptions;
+  ingest?: IngestOptions;
+}
+
+export const DEFAULT_CONFIG: Config = {
+  intervalMinutes: 30,
+  method: 'ookla',
+  fallback: ['netflix'],
+  retention: { rawDays: 7, hourlyMonths: 12 },
+  heartbeat: {
+    enabled: true,
+    intervalSeconds: 30,
+    dnsHost: 'www.google.com',
+    targets: ['https://www.google.com', '1.1.1.1:443'],
+  },
+  notifications: { webhooks: [], desktop: false },
+};
+
+// 設定の読み込み（欠けている項目はデフォルトで補完）
+export function loadConfig(): Config {
+  if (!fs.existsSync(CONFIG_FILE)) {
+    saveConfig(DEFAULT_CONFIG);
+    return { ...DEFAULT_CONFIG };
+  }
+  try {
+    return { ...DEFAULT_CONFIG, ...JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8')) };
+  } catch {
+    return { ...DEFAULT_CONFIG };
+  }
+}
+
+// 設定の保存
+export function saveConfig(config: Config) {
+  fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+}
+
+export function formatRetention(retention: RetentionPolicy): string {
+  return `生データ${retention.rawDays}日 → 1時間集計${retention.hourlyMonths}ヶ月 → 日次集計は無期限`;
+}
+
+export function isMeasurementMethod(value: unknown): value is MeasurementMethod {
+  return typeof value === 'string' && (MEASUREMENT_METHODS as readonly string[]).includes(value);
+}
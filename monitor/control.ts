@@ -0,0 +1,54 @@
+import express from 'express';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// モニターとAPIサーバーを別プロセスで動かす場合の制御用ポート（ローカルのみ）
+export const CONTROL_PORT = 3002;
+
+// APIサーバーからスケジューラーへの指示
+export interface SchedulerControl {
+  // 設定変更を反映して次回の計測・疎通確認を組み直す
+  reschedule(): void;
+  // 待機中の手動計測をすぐに拾わせる
+  measureNow(): void;
+}
+
+// スクリプトとして直接起動されたか（`npm start` から import された場合は false）
+export function isEntryPoint(metaUrl: string): boolean {
+  return process.argv[1] !== undefined && path.resolve(process.argv[1]) === fileURLToPath(metaUrl);
+}
+
+// 別プロセスのモニターへHTTPで指示を送る。届かなくてもモニター側のポーリングで遅れて反映される
+export function createHttpControl(port: number = CONTROL_PORT): SchedulerControl {
+  const send = (command: string) => {
+    fetch(`http://127.0.0.1:${port}/control/${command}`, {
+      method: 'POST',
+      signal: AbortSignal.timeout(5000),
+    }).catch((error) => {
+      console.warn(`モニターへの指示 (${command}) を送れませんでした:`, error.message);
+    });
+  };
+  return {
+    reschedule: () => send('reschedule'),
+    measureNow: () => send('measure'),
+  };
+}
+
+// モニター側: APIサーバーからの指示を受け付ける
+export function startControlServer(control: SchedulerControl, port: number = CONTROL_PORT) {
+  const app = express();
+
+  app.post('/control/reschedule', (req, res) => {
+    control.reschedule();
+    res.status(204).end();
+  });
+
+  app.post('/control/measure', (req, res) => {
+    control.measureNow();
+    res.status(204).end();
+  });
+
+  app.listen(port, '127.0.0.1', () => {
+    console.log(`🎛  Control channel listening on http://127.0.0.1:${port}`);
+  });
+}
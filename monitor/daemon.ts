@@ -0,0 +1,6 @@
+import { startMonitor } from './speed-monitor';
+import { startApiServer } from './api-server';
+
+// スケジューラーとAPIサーバーを1プロセスで起動する（npm start）
+// 設定変更や手動計測の指示はプロセス内で直接スケジューラーに渡る
+startApiServer(startMonitor());
@@ -0,0 +1,65 @@
+import type { Request, Response } from 'express';
+import { appendEvent, readEventsAfter, latestEventId } from './storage';
+
+export type ServerEventType =
+  | 'measurement'
+  | 'measurement-started'
+  | 'measurement-failed'
+  | 'measure-job'
+  | 'config-changed'
+  | 'annotations-changed';
+
+const POLL_INTERVAL_MS = 1000;
+const KEEPALIVE_INTERVAL_MS = 25000;
+
+const clients = new Set<Response>();
+let lastEventId = 0;
+let pollTimer: NodeJS.Timeout | null = null;
+
+// モニター側: イベントをDBに追記する（APIサーバーが拾って配信する）
+export function publishEvent(type: ServerEventType, payload: unknown) {
+  appendEvent(type, payload);
+}
+
+// APIサーバー側: 接続中のクライアントにそのまま配信する
+export function broadcast(type: ServerEventType, payload: unknown) {
+  const message = `event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`;
+  clients.forEach(client => client.write(message));
+}
+
+function pollEvents() {
+  try {
+    for (const event of readEventsAfter(lastEventId)) {
+      lastEventId = event.id;
+      broadcast(event.type as ServerEventType, event.payload);
+    }
+  } catch (error) {
+    console.error('Error polling events:', error);
+  }
+}
+
+// 起動時点より後に追記されたイベントだけを配信する
+export function startEventRelay() {
+  if (pollTimer) return;
+  lastEventId = latestEventId();
+  pollTimer = setInterval(pollEvents, POLL_INTERVAL_MS);
+}
+
+// Server-Sent Events のエンドポイント
+export function handleEventStream(req: Request, res: Response) {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+  res.write(': connected\n\n');
+
+  clients.add(res);
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(keepalive);
+    clients.delete(res);
+  });
+}
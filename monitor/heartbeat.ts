@@ -0,0 +1,108 @@
+import dns from 'dns';
+import fs from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { HeartbeatOptions } from './config';
+import { timeConnect } from './providers/base';
+import { round2 } from '../shared/stats';
+
+const execFilePromise = promisify(execFile);
+
+const PROBE_TIMEOUT_MS = 5000;
+
+export interface ProbeResult {
+  target: string;
+  // 失敗時は null
+  latency: number | null;
+  error?: string;
+}
+
+export interface HeartbeatSample {
+  timestamp: string;
+  // 成功したプローブの平均レイテンシ（すべて失敗なら null）
+  latency: number | null;
+  // 失敗したプローブの割合（%）
+  loss: number;
+  dns: ProbeResult;
+  gateway: ProbeResult | null;
+  targets: ProbeResult[];
+}
+
+async function timed(target: string, probe: () => Promise<unknown>): Promise<ProbeResult> {
+  const start = performance.now();
+  try {
+    await probe();
+    return { target, latency: round2(performance.now() - start) };
+  } catch (error: any) {
+    return { target, latency: null, error: error?.message ?? String(error) };
+  }
+}
+
+// OSのキャッシュを経由しないよう、リゾルバーで直接問い合わせる
+function probeDns(host: string): Promise<ProbeResult> {
+  const resolver = new dns.promises.Resolver({ timeout: PROBE_TIMEOUT_MS, tries: 1 });
+  return timed(`dns:${host}`, () => resolver.resolve4(host));
+}
+
+// http(s):// はHEADリクエスト、host:port はTCP接続で計測
+async function probeTarget(target: string): Promise<ProbeResult> {
+  if (/^https?:\/\//.test(target)) {
+    return timed(target, () => fetch(target, { method: 'HEAD', signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) }));
+  }
+
+  const separator = target.lastIndexOf(':');
+  const host = separator > 0 ? target.slice(0, separator) : target;
+  const port = separator > 0 ? Number(target.slice(separator + 1)) : 443;
+  try {
+    return { target, latency: round2(await timeConnect(host, port)) };
+  } catch (error: any) {
+    return { target, latency: null, error: error?.message ?? String(error) };
+  }
+}
+
+// Linux/WSL2 では /proc/net/route からデフォルトゲートウェイを取得
+function detectGateway(): string | null {
+  try {
+    const lines = fs.readFileSync('/proc/net/route', 'utf-8').trim().split('\n').slice(1);
+    for (const line of lines) {
+      const [, destination, gateway] = line.trim().split(/\s+/);
+      if (destination === '00000000') {
+        const bytes = gateway.match(/../g)!.map(hex => parseInt(hex, 16)).reverse();
+        return bytes.join('.');
+      }
+    }
+  } catch {
+    // /proc がない環境では設定値のみを使う
+  }
+  return null;
+}
+
+// シェルを経由せず引数として渡す（設定値がコマンドとして解釈されないように）
+function probeGateway(gateway: string): Promise<ProbeResult> {
+  const args = process.platform === 'win32'
+    ? ['-n', '1', '-w', String(PROBE_TIMEOUT_MS), gateway]
+    : ['-c', '1', '-W', String(Math.ceil(PROBE_TIMEOUT_MS / 1000)), gateway];
+  return timed(`gateway:${gateway}`, () => execFilePromise('ping', args));
+}
+
+export async function runHeartbeat(options: HeartbeatOptions): Promise<HeartbeatSample> {
+  const gateway = options.gateway || detectGateway();
+  const [dnsResult, gatewayResult, ...targets] = await Promise.all([
+    probeDns(options.dnsHost),
+    gateway ? probeGateway(gateway) : Promise.resolve(null),
+    ...options.targets.map(probeTarget),
+  ]) as [ProbeResult, ProbeResult | null, ...ProbeResult[]];
+
+  const probes = [dnsResult, ...targets, ...(gatewayResult ? [gatewayResult] : [])];
+  const succeeded = targets.filter(t => t.latency !== null).map(t => t.latency as number);
+  const failed = probes.filter(p => p.latency === null).length;
+
+  return {
+    timestamp: new Date().toISOString(),
+    latency: succeeded.length > 0 ? round2(succeeded.reduce((sum, v) => sum + v, 0) / succeeded.length) : null,
+    loss: round2(failed / probes.length * 100),
+    dns: dnsResult,
+    gateway: gatewayResult,
+    targets,
+  };
+}
@@ -0,0 +1,58 @@
+import type { SpeedResult } from './providers';
+import type { SpeedBucket } from './aggregate';
+import { describe } from '../shared/stats';
+
+export interface HeatmapCell {
+  // 0 = 日曜（ローカル時刻）
+  day: number;
+  hour: number;
+  count: number;
+  download: number;
+  upload: number;
+  ping: number;
+}
+
+type CellValues = Pick<HeatmapCell, 'count'> & Record<'download' | 'upload' | 'ping', number[]>;
+
+// 曜日×時（7×24）ごとに下り・上り・Pingの中央値をまとめる。計測のないマスは含めない
+// 保持期間を過ぎた期間は1時間集計（hourly）から補う。1回ごとの値は残っていないため、
+// 集計の中央値を件数分の計測とみなした近似になる
+export function buildHeatmap(results: SpeedResult[], hourly: SpeedBucket[] = []): HeatmapCell[] {
+  const cells: CellValues[] = [];
+  const cellAt = (timestamp: string) => {
+    const date = new Date(timestamp);
+    const index = date.getDay() * 24 + date.getHours();
+    cells[index] ??= { count: 0, download: [], upload: [], ping: [] };
+    return cells[index];
+  };
+
+  for (const result of results) {
+    const cell = cellAt(result.timestamp);
+    cell.count++;
+    cell.download.push(result.download);
+    cell.upload.push(result.upload);
+    cell.ping.push(result.ping);
+  }
+  for (const bucket of hourly) {
+    const cell = cellAt(bucket.timestamp);
+    cell.count += bucket.count;
+    cell.download.push(...Array<number>(bucket.count).fill(bucket.download.p50));
+    cell.upload.push(...Array<number>(bucket.count).fill(bucket.upload.p50));
+    cell.ping.push(...Array<number>(bucket.count).fill(bucket.ping.p50));
+  }
+
+  const heatmap: HeatmapCell[] = [];
+  for (let index = 0; index < 7 * 24; index++) {
+    const cell = cells[index];
+    if (!cell) continue;
+    heatmap.push({
+      day: Math.floor(index / 24),
+      hour: index % 24,
+      count: cell.count,
+      download: describe(cell.download).median,
+      upload: describe(cell.upload).median,
+      ping: describe(cell.ping).median,
+    });
+  }
+  return heatmap;
+}
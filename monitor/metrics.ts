@@ -0,0 +1,92 @@
+import type { Config } from './config';
+import type { SpeedResult } from './providers';
+import { incrementCounters, readCounters, latestMeasurementsByProbe } from './storage';
+
+// 計測1回あたりの所要時間（秒）のヒストグラム区切り
+const DURATION_BUCKETS = [5, 10, 20, 30, 45, 60, 90, 120, 180, 300];
+
+const ATTEMPTED = 'measurements_attempted';
+const FAILED = 'measurements_failed';
+const DURATION = 'measurement_duration_seconds';
+
+// 計測1回分をカウンターとヒストグラムに反映する（モニター側で呼ぶ）
+export function recordMeasurementMetrics(durationSeconds: number, success: boolean) {
+  const increments: Record<string, number> = {
+    [ATTEMPTED]: 1,
+    [FAILED]: success ? 0 : 1,
+    [`${DURATION}_sum`]: durationSeconds,
+    [`${DURATION}_count`]: 1,
+  };
+  // 収まる最小のバケットだけを加算し、出力時に累積する
+  const le = DURATION_BUCKETS.find(bound => durationSeconds <= bound);
+  if (le !== undefined) {
+    increments[`${DURATION}_bucket:${le}`] = 1;
+  }
+  incrementCounters(increments);
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function labels(values: Record<string, string | undefined>): string {
+  const pairs = Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}="${escapeLabel(value!)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Prometheus テキスト形式（openMetrics なら OpenMetrics 形式）で出力
+export function renderMetrics(config: Config, openMetrics: boolean): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string, samples: [string, number][]) => {
+    // OpenMetrics ではカウンターのファミリー名に _total を付けない
+    const family = openMetrics && type === 'counter' ? name.replace(/_total$/, '') : name;
+    lines.push(`# HELP ${family} ${help}`, `# TYPE ${family} ${type}`);
+    for (const [suffix, value] of samples) {
+      lines.push(`${name}${suffix} ${value}`);
+    }
+  };
+
+  // プローブごとに最新値を1サンプルずつ出す（このホスト自身は probe="" になる）
+  const latest = latestMeasurementsByProbe();
+  if (latest.length > 0) {
+    const probeLabels = (result: SpeedResult) => ({ probe: result.probe ?? '', network: result.network });
+    const samples = (value: (result: SpeedResult) => number) => latest.map((result): [string, number] => [
+      labels({ ...probeLabels(result), server: result.server, isp: result.isp, method: result.method }),
+      value(result),
+    ]);
+    metric('netspeed_download_mbps', 'gauge', 'Latest download speed in Mbps.', samples(r => r.download));
+    metric('netspeed_upload_mbps', 'gauge', 'Latest upload speed in Mbps.', samples(r => r.upload));
+    metric('netspeed_ping_ms', 'gauge', 'Latest ping latency in milliseconds.', samples(r => r.ping));
+    metric('netspeed_jitter_ms', 'gauge', 'Latest jitter in milliseconds.', samples(r => r.jitter));
+    metric('netspeed_last_measurement_timestamp_seconds', 'gauge', 'Unix time of the latest successful measurement.',
+      latest.map(result => [labels(probeLabels(result)), new Date(result.timestamp).getTime() / 1000]));
+  }
+
+  const counters = readCounters();
+  metric('netspeed_measurements_attempted_total', 'counter', 'Measurements attempted.', [['', counters[ATTEMPTED] ?? 0]]);
+  metric('netspeed_measurements_failed_total', 'counter', 'Measurements where every provider failed.', [['', counters[FAILED] ?? 0]]);
+
+  // 保存値はバケットごとの件数なので累積値に直す
+  let cumulative = 0;
+  const buckets: [string, number][] = DURATION_BUCKETS.map(le => {
+    cumulative += counters[`${DURATION}_bucket:${le}`] ?? 0;
+    return [`_bucket{le="${le}"}`, cumulative];
+  });
+  metric(`netspeed_${DURATION}`, 'histogram', 'Duration of speed measurements in seconds.', [
+    ...buckets,
+    ['_bucket{le="+Inf"}', counters[`${DURATION}_count`] ?? 0],
+    ['_sum', counters[`${DURATION}_sum`] ?? 0],
+    ['_count', counters[`${DURATION}_count`] ?? 0],
+  ]);
+
+  metric('netspeed_interval_seconds', 'gauge', 'Configured measurement interval in seconds.', [
+    ['', config.intervalMinutes * 60],
+  ]);
+
+  if (openMetrics) {
+    lines.push('# EOF');
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,84 @@
+import { ProviderUnavailableError, MeasurementFailedError } from './providers';
+import { queryFailures, nextSuccessAfter, earliestTimestamp, type FailureRecord } from './storage';
+
+export type FailureClass = 'cli-missing' | 'dns' | 'timeout' | 'parse' | 'no-route' | 'unknown';
+
+export interface OutageWindow {
+  start: string;
+  // 復旧後の最初の成功計測。継続中なら null
+  end: string | null;
+  failures: number;
+  errorClasses: FailureClass[];
+  lastMessage: string;
+}
+
+export interface OutageReport {
+  outages: OutageWindow[];
+  totalDowntimeMs: number;
+  availability: number;
+}
+
+const DNS_CODES = ['ENOTFOUND', 'EAI_AGAIN'];
+const TIMEOUT_CODES = ['ETIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT'];
+const NO_ROUTE_CODES = ['ENETUNREACH', 'EHOSTUNREACH', 'ECONNREFUSED', 'ECONNRESET', 'ENETDOWN'];
+
+function classifyError(error: any): FailureClass {
+  if (error instanceof ProviderUnavailableError) return 'cli-missing';
+  if (error instanceof SyntaxError) return 'parse';
+
+  // fetch のエラーは原因が cause に入っている
+  const code = error?.code ?? error?.cause?.code;
+  const message = `${error?.message ?? ''} ${error?.stderr ?? ''} ${error?.cause?.message ?? ''}`;
+  if (DNS_CODES.includes(code) || /resolve host|getaddrinfo/i.test(message)) return 'dns';
+  if (TIMEOUT_CODES.includes(code) || error?.name === 'AbortError' || /timed? ?out/i.test(message)) return 'timeout';
+  if (NO_ROUTE_CODES.includes(code) || /no route|unreachable|network is down/i.test(message)) return 'no-route';
+  return 'unknown';
+}
+
+// 全プロバイダーが失敗した場合は、「利用不可」以外の原因を優先して分類する
+export function classifyFailure(error: unknown): FailureClass {
+  if (error instanceof MeasurementFailedError) {
+    const classes = error.causes.map(c => classifyError(c.error));
+    return classes.find(c => c !== 'cli-missing') ?? classes[0] ?? 'unknown';
+  }
+  return classifyError(error);
+}
+
+// 成功計測を挟まずに連続した失敗を1つの障害期間にまとめる
+export function buildOutageReport(from?: string, to?: string, now = new Date()): OutageReport {
+  const failures = queryFailures({ from, to });
+  const groups = new Map<string, FailureRecord[]>();
+  for (const failure of failures) {
+    const key = nextSuccessAfter(failure.timestamp) ?? 'ongoing';
+    const group = groups.get(key);
+    if (group) {
+      group.push(failure);
+    } else {
+      groups.set(key, [failure]);
+    }
+  }
+
+  const outages = Array.from(groups.entries()).map(([key, group]) => ({
+    start: group[0].timestamp,
+    end: key === 'ongoing' ? null : key,
+    failures: group.length,
+    errorClasses: group.map(f => f.errorClass as FailureClass).filter((c, i, all) => all.indexOf(c) === i),
+    lastMessage: group[group.length - 1].message,
+  }));
+
+  // 集計期間内に切り詰めてダウンタイムと可用性を算出
+  const rangeStart = new Date(from ?? earliestTimestamp() ?? now.toISOString()).getTime();
+  const rangeEnd = Math.min(new Date(to ?? now.toISOString()).getTime(), now.getTime());
+  const totalDowntimeMs = outages.reduce((sum, outage) => {
+    const start = Math.max(new Date(outage.start).getTime(), rangeStart);
+    const end = Math.min(outage.end ? new Date(outage.end).getTime() : now.getTime(), rangeEnd);
+    return sum + Math.max(0, end - start);
+  }, 0);
+  const span = rangeEnd - rangeStart;
+
+  return {
+    outages,
+    totalDowntimeMs,
+    availability: span > 0 ? Math.round((1 - totalDowntimeMs / span) * 10000) / 100 : 100,
+  };
+}
@@ -0,0 +1,97 @@
+import os from 'os';
+import crypto from 'crypto';
+import type { Config, IngestOptions, ProbeOptions } from './config';
+import type { SpeedResult } from './providers';
+import { validateRecord, type ParsedImport } from './transfer';
+import { enqueueUpload, pendingUploads, deleteUploads } from './storage';
+
+const UPLOAD_BATCH_SIZE = 500;
+
+// このホストで計測した結果に付けるプローブ情報
+export function probeFields(config: Config): Pick<SpeedResult, 'probe' | 'hostname' | 'network'> {
+  return {
+    ...(config.probe?.id ? { probe: config.probe.id } : {}),
+    hostname: os.hostname(),
+    ...(config.probe?.network ? { network: config.probe.network } : {}),
+  };
+}
+
+// 集約サーバーが設定されていれば送信待ちに積む（送れるまでローカルに残る）
+export function queueUpload(config: Config, result: SpeedResult) {
+  if (config.probe?.centralUrl) {
+    enqueueUpload(result);
+  }
+}
+
+// 送信待ちの結果を古い順に集約サーバーへ送る。失敗したら残りは次回に再送する
+export async function flushUploads(probe: ProbeOptions): Promise<number> {
+  let sent = 0;
+  while (true) {
+    const batch = pendingUploads(UPLOAD_BATCH_SIZE);
+    if (batch.length === 0) break;
+
+    const response = await fetch(new URL('/api/ingest', probe.centralUrl), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${probe.token ?? ''}`,
+      },
+      body: JSON.stringify({
+        probe: { id: probe.id, hostname: os.hostname(), network: probe.network },
+        results: batch,
+      }),
+      signal: AbortSignal.timeout(30000),
+    });
+    if (!response.ok) {
+      throw new Error(`Ingest failed: ${response.status}`);
+    }
+
+    deleteUploads(batch.map(result => result.timestamp));
+    sent += batch.length;
+    if (batch.length < UPLOAD_BATCH_SIZE) break;
+  }
+  return sent;
+}
+
+// Authorization: Bearer <token> が設定済みのトークンのいずれかと一致するか
+export function isAuthorizedProbe(authorization: string | undefined, options: IngestOptions | undefined): boolean {
+  const token = /^Bearer (.+)$/.exec(authorization ?? '')?.[1];
+  if (!token || !options) return false;
+  const given = Buffer.from(token);
+  return options.tokens.some(expected => {
+    const buffer = Buffer.from(expected);
+    return buffer.length === given.length && crypto.timingSafeEqual(buffer, given);
+  });
+}
+
+// POST /api/ingest のボディを検証する。プローブ情報はボディの probe で上書きする
+export function parseIngest(body: any): ParsedImport | string {
+  const probe = body?.probe;
+  if (typeof probe?.id !== 'string' || probe.id.trim() === '') {
+    return 'Invalid probe.id';
+  }
+  for (const key of ['hostname', 'network'] as const) {
+    if (probe[key] !== undefined && probe[key] !== null && typeof probe[key] !== 'string') {
+      return `Invalid probe.${key}`;
+    }
+  }
+  if (!Array.isArray(body.results)) {
+    return 'Invalid results (must be an array)';
+  }
+
+  const parsed: ParsedImport = { records: [], errors: [] };
+  body.results.forEach((value: unknown, index: number) => {
+    const record = validateRecord(value);
+    if (typeof record === 'string') {
+      parsed.errors.push({ row: index + 1, error: record });
+    } else {
+      parsed.records.push({
+        ...record,
+        probe: probe.id.trim(),
+        hostname: probe.hostname || undefined,
+        network: probe.network || undefined,
+      });
+    }
+  });
+  return parsed;
+}
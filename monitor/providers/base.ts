@@ -0,0 +1,111 @@
+import net from 'net';
+import { round2 } from '../../shared/stats';
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+export const MEASUREMENT_METHODS = ['ookla', 'netflix', 'selfhosted'] as const;
+
+export type MeasurementMethod = typeof MEASUREMENT_METHODS[number];
+
+export interface SpeedResult {
+  timestamp: string;
+  download: number;
+  upload: number;
+  ping: number;
+  jitter: number;
+  server?: string;
+  isp?: string;
+  method: MeasurementMethod;
+  // 定期計測ではなく手動で要求された計測
+  manual?: boolean;
+  // 計測で実際に転送したデータ量（バイト）
+  downloadBytes?: number;
+  uploadBytes?: number;
+  // パケットロス（%）。Ookla でのみ取得できる
+  packetLoss?: number;
+  // 計測中の負荷時レイテンシ（ms）。無負荷時は ping
+  downloadLatency?: number;
+  uploadLatency?: number;
+  // 計測に使ったサーバーと接続の詳細（Ookla のみ）
+  serverId?: number;
+  serverHost?: string;
+  serverLocation?: string;
+  externalIp?: string;
+  internalIp?: string;
+  interfaceName?: string;
+  isVpn?: boolean;
+  // speedtest.net の結果ページ
+  resultUrl?: string;
+  // 計測したホスト（複数ホストの結果を集約する場合）。probe 未設定はこのホスト自身
+  probe?: string;
+  hostname?: string;
+  network?: string;
+}
+
+// プロバイダーが返す計測値（timestamp と method は呼び出し側で付与）
+export type Measurement = Omit<SpeedResult, 'timestamp' | 'method' | 'manual' | 'probe' | 'hostname' | 'network'>;
+
+export interface SpeedProvider {
+  method: MeasurementMethod;
+  label: string;
+  measure(): Promise<Measurement>;
+}
+
+// CLI未インストールなど、プロバイダー自体が使えない場合のエラー
+export class ProviderUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+// 全プロバイダーが失敗した場合のエラー。各プロバイダーのエラーを保持する
+export class MeasurementFailedError extends Error {
+  constructor(public readonly causes: { method: MeasurementMethod; error: Error }[]) {
+    super(`All providers failed (${causes.map(c => `${c.method}: ${c.error.message}`).join('; ')})`);
+    this.name = 'MeasurementFailedError';
+  }
+}
+
+export function bytesToMbps(bytes: number, seconds: number): number {
+  if (seconds <= 0) return 0;
+  return round2(bytes * 8 / seconds / 1000000);
+}
+
+// 往復時間のサンプルからPing（中央値）とJitter（連続サンプル差の平均）を算出
+export function summarizeLatency(samples: number[]): { ping: number; jitter: number } {
+  if (samples.length === 0) {
+    return { ping: 0, jitter: 0 };
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const ping = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+
+  let diffSum = 0;
+  for (let i = 1; i < samples.length; i++) {
+    diffSum += Math.abs(samples[i] - samples[i - 1]);
+  }
+  const jitter = samples.length > 1 ? diffSum / (samples.length - 1) : 0;
+
+  return { ping: round2(ping), jitter: round2(jitter) };
+}
+
+// TCP接続の確立にかかった時間（ms）を計測
+export function timeConnect(host: string, port: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const start = performance.now();
+    const socket = net.connect({ host, port });
+    socket.setTimeout(CONNECT_TIMEOUT_MS);
+    socket.once('connect', () => {
+      const elapsed = performance.now() - start;
+      socket.destroy();
+      resolve(elapsed);
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      reject(new Error(`TCP connect to ${host}:${port} timed out`));
+    });
+    socket.once('error', reject);
+  });
+}
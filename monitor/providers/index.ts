@@ -0,0 +1,47 @@
+import type { Config } from '../config';
+import { ProviderUnavailableError, MeasurementFailedError, type MeasurementMethod, type SpeedProvider, type SpeedResult } from './base';
+import { createOoklaProvider } from './ookla';
+import { createNetflixProvider } from './netflix';
+import { createSelfHostedProvider } from './selfhosted';
+
+export { MEASUREMENT_METHODS, ProviderUnavailableError, MeasurementFailedError } from './base';
+export type { MeasurementMethod, SpeedProvider, SpeedResult } from './base';
+
+export function createProviders(config: Config): Record<MeasurementMethod, SpeedProvider> {
+  return {
+    ookla: createOoklaProvider(config.ookla),
+    netflix: createNetflixProvider(config.netflix),
+    selfhosted: createSelfHostedProvider(config.selfHosted),
+  };
+}
+
+// 優先プロバイダー → フォールバックの順に重複なく並べる
+export function providerOrder(config: Config): MeasurementMethod[] {
+  return [config.method, ...config.fallback].filter((method, i, all) => all.indexOf(method) === i);
+}
+
+// 順番に試し、最初に成功したプロバイダーの結果を返す
+export async function measureWithFallback(config: Config): Promise<SpeedResult> {
+  const providers = createProviders(config);
+  const causes: { method: MeasurementMethod; error: Error }[] = [];
+
+  for (const method of providerOrder(config)) {
+    const provider = providers[method];
+    console.log(`計測開始... (${provider.label})`);
+
+    try {
+      const measurement = await provider.measure();
+      return {
+        timestamp: new Date().toISOString(),
+        ...measurement,
+        method,
+      };
+    } catch (error: any) {
+      const reason = error instanceof ProviderUnavailableError ? '利用不可' : '計測エラー';
+      console.error(`${provider.label} ${reason}:`, error.message);
+      causes.push({ method, error });
+    }
+  }
+
+  throw new MeasurementFailedError(causes);
+}
@@ -0,0 +1,173 @@
+import { ProviderUnavailableError, bytesToMbps, summarizeLatency, type SpeedProvider } from './base';
+
+const FAST_COM_URL = 'https://fast.com';
+const FAST_API_URL = 'https://api.fast.com';
+
+const LATENCY_SAMPLES = 5;
+const DOWNLOAD_SECONDS = 8;
+const UPLOAD_BYTES = 8 * 1024 * 1024;
+// 接続後に応答が止まっても計測が終わらなくならないよう、リクエストごとに打ち切る
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const UPLOAD_TIMEOUT_MS = 60 * 1000;
+
+export interface NetflixProviderOptions {
+  // ローカルのスタブサーバーを指す場合などに上書きする（トークンもこのURLから取得する）
+  apiUrl?: string;
+  // 指定がなければ fast.com（apiUrl 指定時はそのURL）のスクリプトから取得する
+  token?: string;
+  urlCount?: number;
+}
+
+interface FastTarget {
+  url: string;
+  location?: { city?: string; country?: string };
+}
+
+interface FastResponse {
+  client?: { isp?: string };
+  targets: FastTarget[];
+}
+
+// ステータスを確認してから本文を読む（エラーページの本文を計測値や結果として扱わない）
+// signal を指定しなければ REQUEST_TIMEOUT_MS で打ち切る
+async function fetchOk(url: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS), ...init });
+  if (!response.ok) {
+    throw new Error(`${url}: HTTP ${response.status}`);
+  }
+  return response;
+}
+
+// fast.com のフロントエンドスクリプトに埋め込まれたAPIトークンを取得
+async function fetchToken(pageUrl: string): Promise<string> {
+  const html = await (await fetchOk(pageUrl)).text();
+  const scriptPath = html.match(/<script src="(\/app-[\w]+\.js)"/)?.[1];
+  if (!scriptPath) {
+    throw new Error('fast.com script not found');
+  }
+  const script = await (await fetchOk(`${pageUrl}${scriptPath}`)).text();
+  const token = script.match(/token:"(\w+)"/)?.[1];
+  if (!token) {
+    throw new Error('fast.com token not found');
+  }
+  return token;
+}
+
+async function fetchTargets(apiUrl: string, token: string, urlCount: number): Promise<FastResponse> {
+  const url = `${apiUrl}/netflix/speedtest/v2?https=true&token=${token}&urlCount=${urlCount}`;
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`fast.com API error: ${response.status}`);
+  }
+  const body = await response.json() as FastResponse;
+  if (!Array.isArray(body.targets) || body.targets.length === 0) {
+    throw new Error('fast.com API returned no targets');
+  }
+  return body;
+}
+
+// ターゲットURLのパス末尾に /range/start-end を挿入する
+function rangeUrl(target: string, start: number, end: number): string {
+  const url = new URL(target);
+  url.pathname = `${url.pathname.replace(/\/$/, '')}/range/${start}-${end}`;
+  return url.toString();
+}
+
+async function measureLatency(target: string): Promise<number[]> {
+  const samples: number[] = [];
+  for (let i = 0; i < LATENCY_SAMPLES; i++) {
+    const start = performance.now();
+    const response = await fetchOk(rangeUrl(target, 0, 0));
+    await response.arrayBuffer();
+    samples.push(performance.now() - start);
+  }
+  return samples;
+}
+
+// 全ターゲットから並列にダウンロードし、一定時間で打ち切る
+async function measureDownload(targets: FastTarget[]): Promise<{ mbps: number; bytes: number }> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), DOWNLOAD_SECONDS * 1000);
+  const start = performance.now();
+  let bytes = 0;
+
+  try {
+    await Promise.all(targets.map(async target => {
+      try {
+        const response = await fetchOk(target.url, { signal: controller.signal });
+        if (!response.body) return;
+        const reader = response.body.getReader();
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          bytes += value.byteLength;
+        }
+      } catch (error: any) {
+        if (error.name !== 'AbortError') throw error;
+      }
+    }));
+  } finally {
+    // 失敗時も残りの転送を打ち切り、タイマーを残さない
+    clearTimeout(timer);
+    controller.abort();
+  }
+
+  return { mbps: bytesToMbps(bytes, (performance.now() - start) / 1000), bytes };
+}
+
+async function measureUpload(targets: FastTarget[]): Promise<{ mbps: number; bytes: number }> {
+  const payload = new Uint8Array(UPLOAD_BYTES);
+  const start = performance.now();
+
+  await Promise.all(targets.map(async target => {
+    const response = await fetchOk(rangeUrl(target.url, 0, UPLOAD_BYTES), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: payload,
+      signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS),
+    });
+    await response.arrayBuffer();
+  }));
+
+  const bytes = UPLOAD_BYTES * targets.length;
+  return { mbps: bytesToMbps(bytes, (performance.now() - start) / 1000), bytes };
+}
+
+export function createNetflixProvider(options: NetflixProviderOptions = {}): SpeedProvider {
+  const apiUrl = (options.apiUrl || FAST_API_URL).replace(/\/$/, '');
+  // apiUrl を上書きした場合はトークンも同じ場所から取得し、fast.com へは接続しない
+  const tokenPageUrl = options.apiUrl ? apiUrl : FAST_COM_URL;
+  const urlCount = options.urlCount || 3;
+
+  return {
+    method: 'netflix',
+    label: 'Netflix (fast.com)',
+    async measure() {
+      let token = options.token;
+      if (!token) {
+        try {
+          token = await fetchToken(tokenPageUrl);
+        } catch (error: any) {
+          throw new ProviderUnavailableError(`fast.com token unavailable: ${error.message}`);
+        }
+      }
+
+      const { client, targets } = await fetchTargets(apiUrl, token, urlCount);
+      const { ping, jitter } = summarizeLatency(await measureLatency(targets[0].url));
+      const download = await measureDownload(targets);
+      const upload = await measureUpload(targets);
+      const location = targets[0].location;
+
+      return {
+        download: download.mbps,
+        upload: upload.mbps,
+        ping,
+        jitter,
+        downloadBytes: download.bytes,
+        uploadBytes: upload.bytes,
+        server: location ? [location.city, location.country].filter(Boolean).join(', ') || undefined : undefined,
+        isp: client?.isp || undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import type { OoklaOptions } from '../config';
+import { ProviderUnavailableError, type Measurement, type SpeedProvider } from './base';
+import { round2 } from '../../shared/stats';
+
+const execPromise = promisify(exec);
+
+async function checkSpeedtestCLI(): Promise<boolean> {
+  try {
+    await execPromise('speedtest --version');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function printInstallHelp() {
+  console.error('\n❌ Ookla Speedtest CLIがインストールされていません\n');
+  console.error('以下のコマンドでインストールしてください:\n');
+  console.error('【WSL2 (Ubuntu/Debian)】');
+  console.error('curl -s https://packagecloud.io/install/repositories/ookla/speedtest-cli/script.deb.sh | sudo bash');
+  console.error('sudo apt-get install speedtest\n');
+  console.error('【Windows】');
+  console.error('winget install Ookla.Speedtest.CLI\n');
+  console.error('【macOS】');
+  console.error('brew install speedtest-cli\n');
+}
+
+// `speedtest --format=json` の出力を計測値に変換（インポートでも使用）
+export function parseOoklaResult(result: any): Measurement {
+  return {
+    download: round2(result.download.bandwidth * 8 / 1000000),
+    upload: round2(result.upload.bandwidth * 8 / 1000000),
+    ping: round2(result.ping.latency),
+    jitter: round2(result.ping.jitter),
+    server: result.server?.name || undefined,
+    isp: result.isp || undefined,
+    downloadBytes: result.download.bytes ?? undefined,
+    uploadBytes: result.upload.bytes ?? undefined,
+    // サーバー側で計測できなかった場合は packetLoss が出力されない
+    packetLoss: typeof result.packetLoss === 'number' ? round2(result.packetLoss) : undefined,
+    downloadLatency: typeof result.download.latency?.iqm === 'number' ? round2(result.download.latency.iqm) : undefined,
+    uploadLatency: typeof result.upload.latency?.iqm === 'number' ? round2(result.upload.latency.iqm) : undefined,
+    serverId: result.server?.id ?? undefined,
+    serverHost: result.server?.host || undefined,
+    serverLocation: [result.server?.location, result.server?.country].filter(Boolean).join(', ') || undefined,
+    externalIp: result.interface?.externalIp || undefined,
+    internalIp: result.interface?.internalIp || undefined,
+    interfaceName: result.interface?.name || undefined,
+    isVpn: typeof result.interface?.isVpn === 'boolean' ? result.interface.isVpn : undefined,
+    resultUrl: result.result?.url || undefined,
+  };
+}
+
+// サーバーの固定・除外を CLI の --server-id に変換する
+async function serverArgs(options: OoklaOptions | undefined): Promise<string> {
+  if (options?.serverId !== undefined) {
+    return ` --server-id=${options.serverId}`;
+  }
+  const excluded = options?.excludeServerIds ?? [];
+  if (excluded.length === 0) {
+    return '';
+  }
+
+  // 近い順のサーバー一覧から除外していない最初のサーバーを選ぶ
+  const { stdout } = await execPromise('speedtest --servers --format=json --accept-license --accept-gdpr');
+  const servers: { id: number }[] = JSON.parse(stdout).servers ?? [];
+  const server = servers.find(s => !excluded.includes(Number(s.id)));
+  if (!server) {
+    throw new Error('All nearby servers are excluded');
+  }
+  return ` --server-id=${server.id}`;
+}
+
+export function createOoklaProvider(options?: OoklaOptions): SpeedProvider {
+  return {
+    method: 'ookla',
+    label: 'Ookla Speedtest',
+    async measure() {
+      if (!(await checkSpeedtestCLI())) {
+        printInstallHelp();
+        throw new ProviderUnavailableError('Speedtest CLI not installed');
+      }
+
+      const { stdout } = await execPromise(`speedtest --format=json --accept-license --accept-gdpr${await serverArgs(options)}`);
+      return parseOoklaResult(JSON.parse(stdout));
+    },
+  };
+}
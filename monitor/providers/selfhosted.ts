@@ -0,0 +1,80 @@
+import { ProviderUnavailableError, bytesToMbps, summarizeLatency, timeConnect, type SpeedProvider } from './base';
+
+const DEFAULT_DOWNLOAD_BYTES = 25 * 1024 * 1024;
+const DEFAULT_UPLOAD_BYTES = 10 * 1024 * 1024;
+const DEFAULT_LATENCY_SAMPLES = 10;
+// 接続後に応答が止まっても計測が終わらなくならないよう、転送ごとに打ち切る
+const TRANSFER_TIMEOUT_MS = 60 * 1000;
+
+export interface SelfHostedProviderOptions {
+  // 計測対象のAPIサーバー（例: http://192.168.1.10:3001）
+  url?: string;
+  downloadBytes?: number;
+  uploadBytes?: number;
+  latencySamples?: number;
+}
+
+async function measureLatency(baseUrl: URL, samples: number): Promise<number[]> {
+  const port = Number(baseUrl.port) || (baseUrl.protocol === 'https:' ? 443 : 80);
+  const results: number[] = [];
+  for (let i = 0; i < samples; i++) {
+    results.push(await timeConnect(baseUrl.hostname, port));
+  }
+  return results;
+}
+
+async function measureDownload(baseUrl: URL, bytes: number): Promise<{ mbps: number; bytes: number }> {
+  const start = performance.now();
+  const response = await fetch(new URL(`/api/probe/download?bytes=${bytes}`, baseUrl), {
+    signal: AbortSignal.timeout(TRANSFER_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Probe download failed: ${response.status}`);
+  }
+  const received = (await response.arrayBuffer()).byteLength;
+  return { mbps: bytesToMbps(received, (performance.now() - start) / 1000), bytes: received };
+}
+
+async function measureUpload(baseUrl: URL, bytes: number): Promise<{ mbps: number; bytes: number }> {
+  const start = performance.now();
+  const response = await fetch(new URL('/api/probe/upload', baseUrl), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: new Uint8Array(bytes),
+    signal: AbortSignal.timeout(TRANSFER_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Probe upload failed: ${response.status}`);
+  }
+  const { received } = await response.json() as { received: number };
+  return { mbps: bytesToMbps(received, (performance.now() - start) / 1000), bytes: received };
+}
+
+export function createSelfHostedProvider(options: SelfHostedProviderOptions = {}): SpeedProvider {
+  return {
+    method: 'selfhosted',
+    label: 'Self-hosted',
+    async measure() {
+      if (!options.url) {
+        throw new ProviderUnavailableError('selfHosted.url is not configured');
+      }
+
+      const baseUrl = new URL(options.url);
+      const { ping, jitter } = summarizeLatency(
+        await measureLatency(baseUrl, options.latencySamples || DEFAULT_LATENCY_SAMPLES)
+      );
+      const download = await measureDownload(baseUrl, options.downloadBytes || DEFAULT_DOWNLOAD_BYTES);
+      const upload = await measureUpload(baseUrl, options.uploadBytes || DEFAULT_UPLOAD_BYTES);
+
+      return {
+        download: download.mbps,
+        upload: upload.mbps,
+        ping,
+        jitter,
+        downloadBytes: download.bytes,
+        uploadBytes: upload.bytes,
+        server: baseUrl.host,
+      };
+    },
+  };
+}
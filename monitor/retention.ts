@@ -0,0 +1,76 @@
+import type { RetentionPolicy } from './config';
+import type { SpeedResult } from './providers';
+import { bucketize, mergeBuckets, type SpeedBucket } from './aggregate';
+import {
+  queryMeasurements,
+  deleteMeasurementsBefore,
+  queryRollups,
+  queryRollupProbes,
+  replaceWithRollups,
+  deleteRollupsBefore,
+  deleteHeartbeatsBefore,
+  type RollupResolution,
+} from './storage';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function floorTo(time: number, unitMs: number): number {
+  return Math.floor(time / unitMs) * unitMs;
+}
+
+// 既存の集計と合わせてまとめ直す（取り込みなどで既に同じ時間帯の集計がある場合）
+function mergeWithExisting(
+  resolution: RollupResolution,
+  probe: string,
+  buckets: SpeedBucket[],
+  bucketMs: number
+): SpeedBucket[] {
+  const existing = queryRollups(resolution, {
+    from: buckets[0].timestamp,
+    to: buckets[buckets.length - 1].timestamp,
+    probe,
+  });
+  return mergeBuckets([...existing, ...buckets], bucketMs);
+}
+
+// 保持期間を過ぎた生データを1時間集計に、1時間集計を日次集計にまとめる（プローブごと）
+export function applyRetention(policy: RetentionPolicy, now = new Date()) {
+  const rawCutoff = new Date(floorTo(now.getTime() - policy.rawDays * DAY_MS, HOUR_MS));
+  const raw = queryMeasurements({ to: new Date(rawCutoff.getTime() - 1).toISOString() });
+  if (raw.length > 0) {
+    const rawByProbe = new Map<string, SpeedResult[]>();
+    for (const result of raw) {
+      const probe = result.probe ?? '';
+      rawByProbe.set(probe, [...(rawByProbe.get(probe) ?? []), result]);
+    }
+    const hourly = new Map<string, SpeedBucket[]>();
+    for (const [probe, results] of Array.from(rawByProbe.entries())) {
+      hourly.set(probe, mergeWithExisting('hour', probe, bucketize(results, HOUR_MS), HOUR_MS));
+    }
+    replaceWithRollups('hour', hourly, () => {
+      deleteMeasurementsBefore(rawCutoff.toISOString());
+    });
+    console.log(`${raw.length}件の生データを1時間集計にまとめました`);
+  }
+
+  // 疎通確認は集計せず、生データと同じ期間だけ保持する
+  deleteHeartbeatsBefore(rawCutoff.toISOString());
+
+  const hourlyCutoff = new Date(now);
+  hourlyCutoff.setMonth(hourlyCutoff.getMonth() - policy.hourlyMonths);
+  const dayCutoff = new Date(floorTo(hourlyCutoff.getTime(), DAY_MS));
+  const daily = new Map<string, SpeedBucket[]>();
+  let hourCount = 0;
+  for (const probe of queryRollupProbes('hour', dayCutoff.toISOString())) {
+    const hours = queryRollups('hour', { to: new Date(dayCutoff.getTime() - 1).toISOString(), probe });
+    hourCount += hours.length;
+    daily.set(probe, mergeWithExisting('day', probe, mergeBuckets(hours, DAY_MS), DAY_MS));
+  }
+  if (daily.size > 0) {
+    replaceWithRollups('day', daily, () => {
+      deleteRollupsBefore('hour', dayCutoff.toISOString());
+    });
+    console.log(`${hourCount}件の1時間集計を日次集計にまとめました`);
+  }
+}
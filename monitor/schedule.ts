@@ -0,0 +1,150 @@
+import type { Config, ScheduleWindow } from './config';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+// 予定を探す範囲（曜日指定があっても1週間分は必ず含める）
+const SEARCH_HORIZON_MS = 8 * DAY_MINUTES * MINUTE_MS;
+
+// "HH:MM" を0時からの分に変換（"24:00" は終了時刻としてのみ使う）
+export function parseTimeOfDay(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[2]) < 60 && minutes <= DAY_MINUTES ? minutes : null;
+}
+
+function minuteOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+// ローカル時刻で時間帯に含まれるか。終了が開始以前なら日付をまたぐ（曜日は開始側で判定）
+function contains(window: ScheduleWindow, date: Date): boolean {
+  const start = parseTimeOfDay(window.start)!;
+  const end = parseTimeOfDay(window.end)!;
+  const minute = minuteOfDay(date);
+  const onDay = (day: number) => !window.days || window.days.length === 0 || window.days.includes(day);
+
+  if (start < end) {
+    return minute >= start && minute < end && onDay(date.getDay());
+  }
+  if (minute >= start) return onDay(date.getDay());
+  if (minute < end) return onDay((date.getDay() + 6) % 7);
+  return false;
+}
+
+// 先に書かれた時間帯を優先する
+export function windowAt(config: Config, date: Date): ScheduleWindow | undefined {
+  return config.schedule?.find(window => contains(window, date));
+}
+
+export function isSkipped(config: Config, date: Date): boolean {
+  return windowAt(config, date)?.skip === true;
+}
+
+// 時間帯の中では開始時刻から、時間帯の外では0時から、間隔ごとに区切った時刻に計測する
+function isSlot(config: Config, date: Date): boolean {
+  const window = windowAt(config, date);
+  if (window?.skip) return false;
+  const minute = minuteOfDay(date);
+  if (window) {
+    const sinceStart = (minute - parseTimeOfDay(window.start)! + DAY_MINUTES) % DAY_MINUTES;
+    return sinceStart % window.intervalMinutes! === 0;
+  }
+  return minute % config.intervalMinutes === 0;
+}
+
+// now より後の計測予定（ジッター適用前のUnix時刻ms）を最大 limit 件返す
+// スケジュール未設定なら、前回の開始時刻から固定間隔で並べる
+export function plannedRuns(
+  config: Config,
+  now: number,
+  lastRunAt: number | undefined,
+  limit: number,
+  horizonMs: number = SEARCH_HORIZON_MS
+): number[] {
+  const runs: number[] = [];
+
+  if (!config.schedule || config.schedule.length === 0) {
+    const interval = config.intervalMinutes * MINUTE_MS;
+    let next = lastRunAt !== undefined ? Math.max(now, lastRunAt + interval) : now + interval;
+    while (runs.length < limit && next <= now + horizonMs) {
+      runs.push(next);
+      next += interval;
+    }
+    return runs;
+  }
+
+  const start = new Date(now);
+  start.setSeconds(0, 0);
+  for (let time = start.getTime() + MINUTE_MS; runs.length < limit && time <= now + horizonMs; time += MINUTE_MS) {
+    if (isSlot(config, new Date(time))) {
+      runs.push(time);
+    }
+  }
+  return runs;
+}
+
+// 予定時刻に加えるランダムな遅れ（ms）。毎時0分に計測が集中しないようにする
+export function jitterAt(config: Config, time: number): number {
+  const jitterMinutes = windowAt(config, new Date(time))?.jitterMinutes ?? 0;
+  return Math.round(Math.random() * jitterMinutes * MINUTE_MS);
+}
+
+// 1日あたりの計測回数の目安（1週間分の予定から平均）
+export function estimateRunsPerDay(config: Config, now: number = Date.now()): number {
+  const week = 7 * DAY_MINUTES * MINUTE_MS;
+  const runs = plannedRuns(config, now, undefined, Infinity, week);
+  return Math.round(runs.length / 7 * 10) / 10;
+}
+
+// リクエストボディの時間帯ルールを検証する（不正ならエラーメッセージを返す）
+export function parseSchedule(value: unknown): ScheduleWindow[] | string {
+  if (!Array.isArray(value)) {
+    return 'Invalid schedule (must be an array of windows)';
+  }
+
+  const windows: ScheduleWindow[] = [];
+  for (let index = 0; index < value.length; index++) {
+    const item = value[index];
+    const label = `schedule[${index}]`;
+    if (typeof item !== 'object' || item === null) {
+      return `Invalid ${label}`;
+    }
+    const start = parseTimeOfDay(item.start);
+    const end = parseTimeOfDay(item.end);
+    if (start === null || start === DAY_MINUTES || end === null) {
+      return `Invalid ${label} start/end (must be HH:MM)`;
+    }
+    if (item.days !== undefined && (!Array.isArray(item.days)
+      || !item.days.every((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6))) {
+      return `Invalid ${label}.days (must be 0-6, 0 = Sunday)`;
+    }
+    if (item.skip !== undefined && typeof item.skip !== 'boolean') {
+      return `Invalid ${label}.skip`;
+    }
+
+    const window: ScheduleWindow = { start: item.start, end: item.end };
+    if (item.days !== undefined && item.days.length > 0) {
+      window.days = item.days
+        .filter((day: number, i: number) => item.days.indexOf(day) === i)
+        .sort((a: number, b: number) => a - b);
+    }
+    if (item.skip) {
+      window.skip = true;
+    } else {
+      if (!Number.isInteger(item.intervalMinutes) || item.intervalMinutes < 1 || item.intervalMinutes > 1440) {
+        return `Invalid ${label}.intervalMinutes (must be 1-1440 minutes)`;
+      }
+      window.intervalMinutes = item.intervalMinutes;
+      if (item.jitterMinutes !== undefined && item.jitterMinutes !== 0) {
+        if (typeof item.jitterMinutes !== 'number' || item.jitterMinutes < 0 || item.jitterMinutes >= item.intervalMinutes) {
+          return `Invalid ${label}.jitterMinutes (must be 0 or more and less than the interval)`;
+        }
+        window.jitterMinutes = item.jitterMinutes;
+      }
+    }
+    windows.push(window);
+  }
+  return windows;
+}
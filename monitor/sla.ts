@@ -0,0 +1,133 @@
+import type { ServicePlan } from './config';
+import type { Annotation } from './annotations';
+import type { SpeedResult } from './providers';
+import { round2 } from '../shared/stats';
+import { TIME_SLOTS, slotForHour, type TimeSlot } from '../shared/timeslots';
+
+export interface ComplianceRates {
+  download: number;
+  upload: number | null;
+  ping: number;
+  overall: number;
+}
+
+export interface HourCompliance {
+  hour: number;
+  count: number;
+  avgDownload: number;
+  compliance: number;
+}
+
+export interface SlotCompliance {
+  slot: string;
+  count: number;
+  compliance: number | null;
+}
+
+export interface ViolationStreak {
+  start: string;
+  end: string;
+  samples: number;
+}
+
+export interface SlaReport {
+  plan: ServicePlan;
+  samples: number;
+  compliance: ComplianceRates;
+  // 契約速度に対する平均実効速度の割合（%）
+  contractedRatio: { download: number; upload: number };
+  worstHours: HourCompliance[];
+  longestStreaks: ViolationStreak[];
+  timeSlots: SlotCompliance[];
+  // 期間中に記録された出来事（速度の変化の理由を添えるため）
+  annotations: Annotation[];
+  // 保持期間を過ぎて集計済みになり、達成率の計算に含められなかった計測の件数
+  rolledUpSamples: number;
+}
+
+function rate(passed: number, total: number): number {
+  return total > 0 ? round2(passed / total * 100) : 0;
+}
+
+export function meetsPlan(sample: SpeedResult, plan: ServicePlan): boolean {
+  return sample.download >= plan.minDownloadMbps
+    && (plan.minUploadMbps === undefined || sample.upload >= plan.minUploadMbps)
+    && sample.ping <= plan.maxPingMs;
+}
+
+// しきい値を下回った計測が連続した区間を長い順に返す
+function findStreaks(samples: SpeedResult[], plan: ServicePlan): ViolationStreak[] {
+  const streaks: ViolationStreak[] = [];
+  let current: SpeedResult[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      streaks.push({ start: current[0].timestamp, end: current[current.length - 1].timestamp, samples: current.length });
+      current = [];
+    }
+  };
+
+  for (const sample of samples) {
+    if (meetsPlan(sample, plan)) {
+      flush();
+    } else {
+      current.push(sample);
+    }
+  }
+  flush();
+
+  return streaks.sort((a, b) => b.samples - a.samples);
+}
+
+export function buildSlaReport(
+  samples: SpeedResult[],
+  plan: ServicePlan,
+  slots: TimeSlot[] = TIME_SLOTS,
+  annotations: Annotation[] = [],
+  rolledUpSamples = 0
+): SlaReport {
+  const total = samples.length;
+  const avg = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+  const hours: HourCompliance[] = Array.from({ length: 24 }, (_, hour) => {
+    const hourSamples = samples.filter(s => new Date(s.timestamp).getHours() === hour);
+    return {
+      hour,
+      count: hourSamples.length,
+      avgDownload: round2(avg(hourSamples.map(s => s.download))),
+      compliance: rate(hourSamples.filter(s => meetsPlan(s, plan)).length, hourSamples.length),
+    };
+  });
+
+  return {
+    plan,
+    samples: total,
+    compliance: {
+      download: rate(samples.filter(s => s.download >= plan.minDownloadMbps).length, total),
+      upload: plan.minUploadMbps === undefined
+        ? null
+        : rate(samples.filter(s => s.upload >= plan.minUploadMbps!).length, total),
+      ping: rate(samples.filter(s => s.ping <= plan.maxPingMs).length, total),
+      overall: rate(samples.filter(s => meetsPlan(s, plan)).length, total),
+    },
+    contractedRatio: {
+      download: rate(avg(samples.map(s => s.download)), plan.downloadMbps),
+      upload: rate(avg(samples.map(s => s.upload)), plan.uploadMbps),
+    },
+    worstHours: hours
+      .filter(h => h.count > 0)
+      .sort((a, b) => a.compliance - b.compliance || a.avgDownload - b.avgDownload)
+      .slice(0, 5),
+    longestStreaks: findStreaks(samples, plan).slice(0, 5),
+    timeSlots: slots.map(slot => {
+      const slotSamples = samples.filter(s => slotForHour(new Date(s.timestamp).getHours(), slots) === slot);
+      return {
+        slot: slot.name,
+        count: slotSamples.length,
+        compliance: slotSamples.length > 0 ? rate(slotSamples.filter(s => meetsPlan(s, plan)).length, slotSamples.length) : null,
+      };
+    }),
+    annotations,
+    rolledUpSamples,
+  };
+}
@@ -1,114 +1,155 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import fs from 'fs';
-import path from 'path';
-
-const execPromise = promisify(exec);
-
-interface SpeedResult {
-  timestamp: string;
-  download: number;
-  upload: number;
-  ping: number;
-  jitter: number;
-  server?: string;
-  isp?: string;
-}
+import { loadConfig, formatRetention, type Config } from './config';
+import { measureWithFallback, providerOrder, type SpeedResult } from './providers';
+import {
+  insertMeasurement,
+  insertFailure,
+  insertHeartbeat,
+  countFailuresSinceLastSuccess,
+  claimMeasureJob,
+  beginMeasureJob,
+  finishMeasureJob,
+  type MeasureJob,
+} from './storage';
+import { evaluateAlerts } from './alerts';
+import { recordMeasurementMetrics } from './metrics';
+import { publishEvent } from './events';
+import { runHeartbeat } from './heartbeat';
+import { classifyFailure } from './outages';
+import { applyRetention } from './retention';
+import { isEntryPoint, startControlServer, type SchedulerControl } from './control';
+import { plannedRuns, jitterAt, isSkipped, estimateRunsPerDay } from './schedule';
+import { budgetStatus, applyBudget, earliestNextRun, recordDataUsage, formatBudget } from './budget';
+import { probeFields, queueUpload, flushUploads } from './probe';
+
+async function measureSpeed(config: Config): Promise<SpeedResult> {
+  const speedResult = await measureWithFallback(config);
+
+  console.log(`${speedResult.timestamp}`);
+  console.log(`方式: ${speedResult.method}`);
+  console.log(`下り: ${speedResult.download} Mbps`);
+  console.log(`上り: ${speedResult.upload} Mbps`);
+  console.log(`Ping: ${speedResult.ping} ms`);
+  console.log(`Jitter: ${speedResult.jitter} ms`);
+  if (speedResult.server) console.log(`サーバー: ${speedResult.server}`);
+  if (speedResult.packetLoss !== undefined) console.log(`パケットロス: ${speedResult.packetLoss} %`);
+  if (speedResult.resultUrl) console.log(`結果: ${speedResult.resultUrl}`);
+  if (speedResult.downloadBytes !== undefined) {
+    console.log(`通信量: ${Math.round(((speedResult.downloadBytes ?? 0) + (speedResult.uploadBytes ?? 0)) / 1000000)} MB`);
+  }
+  console.log('---');
 
-interface Config {
-  intervalMinutes: number;
+  return speedResult;
 }
 
-const DATA_FILE = path.join(process.cwd(), 'monitor', 'speed_data.json');
-const CONFIG_FILE = path.join(process.cwd(), 'monitor', 'config.json');
+// 手動計測の要求を確認する間隔
+const JOB_POLL_INTERVAL_MS = 2000;
+// 集約サーバーへの再送を試みる間隔
+const UPLOAD_RETRY_INTERVAL_MS = 60 * 1000;
+// setTimeout の上限（約24.8日）を超えると即座に発火するため、これより先の予定は途中で見直す
+const MAX_SCHEDULE_DELAY_MS = 24 * 60 * 60 * 1000;
 
-function loadData(): SpeedResult[] {
-  if (!fs.existsSync(DATA_FILE)) {
-    return [];
-  }
+let timeoutId: NodeJS.Timeout | null = null;
+let jobTimeoutId: NodeJS.Timeout | null = null;
+let heartbeatTimeoutId: NodeJS.Timeout | null = null;
+let uploadTimeoutId: NodeJS.Timeout | null = null;
+let uploadFailing = false;
+let lastConfigCheck = Date.now();
+let measuring = false;
+// 直近の定期計測・疎通確認の開始時刻（間隔変更時の次回時刻の計算に使う）
+let lastRunAt = 0;
+let lastHeartbeatAt = 0;
+
+// 計測1回分（定期・手動共通）。結果はジョブにも記録する
+// config は通信量の上限を反映済みのもの（失敗時の計測方式もこれを記録する）
+async function runMeasurement(job: MeasureJob, config: Config = loadConfig()) {
+  measuring = true;
+  let result: SpeedResult | undefined;
+  let errorMessage: string | undefined;
   try {
-    const data = fs.readFileSync(DATA_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return [];
+    publishEvent('measure-job', job);
+    const startedAt = performance.now();
+    publishEvent('measurement-started', { timestamp: new Date().toISOString(), jobId: job.id, manual: job.manual });
+    try {
+      result = { ...(await measureSpeed(config)), ...(job.manual ? { manual: true } : {}), ...probeFields(config) };
+      insertMeasurement(result);
+      recordDataUsage(result);
+      queueUpload(config, result);
+      runUploadLoop();
+      publishEvent('measurement', result);
+    } catch (error: any) {
+      // 失敗も障害イベントとして記録する
+      const failure = {
+        timestamp: new Date().toISOString(),
+        errorClass: classifyFailure(error),
+        message: error?.message ?? String(error),
+        method: config.method,
+      };
+      errorMessage = failure.message;
+      insertFailure(failure);
+      publishEvent('measurement-failed', { ...failure, jobId: job.id });
+      console.error(`計測失敗 (${failure.errorClass})`);
+    }
+    recordMeasurementMetrics((performance.now() - startedAt) / 1000, result !== undefined);
+
+    // 保持期間を過ぎたデータを集計データに置き換える（失敗しても計測の失敗としては扱わない）
+    try {
+      applyRetention(loadConfig().retention);
+    } catch (error: any) {
+      console.error('データ保持の処理エラー:', error.message);
+    }
+
+    try {
+      await evaluateAlerts(
+        { result, consecutiveFailures: countFailuresSinceLastSuccess(config.probe?.id) },
+        loadConfig().notifications
+      );
+    } catch (error: any) {
+      console.error('アラート評価エラー:', error.message);
+    }
+  } finally {
+    // 途中で例外が出ても次の計測を止めないよう、実行中の状態とジョブは必ず戻す
+    measuring = false;
+    publishEvent('measure-job', finishMeasureJob(job.id, { result, error: errorMessage }));
   }
 }
 
-function saveData(results: SpeedResult[]) {
-  fs.writeFileSync(DATA_FILE, JSON.stringify(results, null, 2));
-}
+// 設定のスケジュール（固定間隔なら前回の開始時刻から）で次回をセットする
+function scheduleNextRun() {
+  const config = loadConfig();
+  const now = Date.now();
+  // 通信量の上限に近づいたら、上限内に収まるまで次回を先送りする
+  const earliest = earliestNextRun(budgetStatus(config, now), lastRunAt);
+  const [next] = plannedRuns(config, Math.max(now, earliest), lastRunAt, 1);
 
-function loadConfig(): Config {
-  if (!fs.existsSync(CONFIG_FILE)) {
-    const defaultConfig = { intervalMinutes: 30 };
-    fs.writeFileSync(CONFIG_FILE, JSON.stringify(defaultConfig, null, 2));
-    return defaultConfig;
-  }
-  try {
-    return JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8'));
-  } catch {
-    return { intervalMinutes: 30 };
+  if (timeoutId) {
+    clearTimeout(timeoutId);
   }
-}
 
-async function checkSpeedtestCLI(): Promise<boolean> {
-  try {
-    await execPromise('speedtest --version');
-    return true;
-  } catch {
-    return false;
+  // すべて計測しない時間帯になっている場合は1日後に見直す
+  if (next === undefined) {
+    console.log('スケジュール上の計測予定がありません\n');
+    timeoutId = setTimeout(() => scheduleNextRun(), MAX_SCHEDULE_DELAY_MS);
+    return;
   }
+
+  const delay = next - now + jitterAt(config, next);
+  console.log(`${Math.round(delay / 60000)}分後に次回計測 (${new Date(now + delay).toLocaleString('ja-JP')})...\n`);
+  // 通信量の上限で月末まで止める場合など、1日より先なら1日後に予定を組み直す
+  timeoutId = delay > MAX_SCHEDULE_DELAY_MS
+    ? setTimeout(() => scheduleNextRun(), MAX_SCHEDULE_DELAY_MS)
+    : setTimeout(() => runMonitor(), delay);
 }
 
-async function measureSpeed(): Promise<SpeedResult> {
-  console.log('計測開始... (Ookla Speedtest)');
-  
-  const hasSpeedtestCLI = await checkSpeedtestCLI();
-  
-  if (!hasSpeedtestCLI) {
-    console.error('\n❌ Ookla Speedtest CLIがインストールされていません\n');
-    console.error('以下のコマンドでインストールしてください:\n');
-    console.error('【WSL2 (Ubuntu/Debian)】');
-    console.error('curl -s https://packagecloud.io/install/repositories/ookla/speedtest-cli/script.deb.sh | sudo bash');
-    console.error('sudo apt-get install speedtest\n');
-    console.error('【Windows】');
-    console.error('winget install Ookla.Speedtest.CLI\n');
-    console.error('【macOS】');
-    console.error('brew install speedtest-cli\n');
-    throw new Error('Speedtest CLI not installed');
-  }
-  
-  try {
-    const { stdout } = await execPromise('speedtest --format=json --accept-license --accept-gdpr');
-    const result = JSON.parse(stdout);
-    
-    const speedResult: SpeedResult = {
-      timestamp: new Date().toISOString(),
-      download: Math.round(result.download.bandwidth * 8 / 1000000 * 100) / 100,
-      upload: Math.round(result.upload.bandwidth * 8 / 1000000 * 100) / 100,
-      ping: Math.round(result.ping.latency * 100) / 100,
-      jitter: Math.round(result.ping.jitter * 100) / 100,
-      server: result.server.name || undefined,
-      isp: result.isp || undefined
-    };
-    
-    console.log(`${speedResult.timestamp}`);
-    console.log(`下り: ${speedResult.download} Mbps`);
-    console.log(`上り: ${speedResult.upload} Mbps`);
-    console.log(`Ping: ${speedResult.ping} ms`);
-    console.log(`Jitter: ${speedResult.jitter} ms`);
-    if (speedResult.server) console.log(`サーバー: ${speedResult.server}`);
-    console.log('---');
-    
-    return speedResult;
-  } catch (error: any) {
-    console.error('計測エラー:', error.message);
-    throw error;
+function scheduleNextHeartbeat() {
+  const { heartbeat } = loadConfig();
+  const delay = Math.max(0, lastHeartbeatAt + heartbeat.intervalSeconds * 1000 - Date.now());
+
+  if (heartbeatTimeoutId) {
+    clearTimeout(heartbeatTimeoutId);
   }
-}
 
-let timeoutId: NodeJS.Timeout | null = null;
-let lastConfigCheck = Date.now();
+  heartbeatTimeoutId = setTimeout(() => runHeartbeatLoop(), delay);
+}
 
 async function runMonitor() {
   // 10秒ごとに設定ファイルをチェック
@@ -116,51 +157,143 @@ async function runMonitor() {
   if (now - lastConfigCheck > 10000) {
     lastConfigCheck = now;
     const config = loadConfig();
-    console.log(`現在の設定: ${config.intervalMinutes}分間隔`);
+    console.log(`現在の設定: ${config.intervalMinutes}分間隔 (${providerOrder(config).join(' → ')})`);
+    console.log(`データ保持: ${formatRetention(config.retention)}`);
   }
 
-  try {
-    const result = await measureSpeed();
-    const data = loadData();
-    data.push(result);
-    
-    // 7日分のデータのみ保持
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-    const filteredData = data.filter(d => 
-      new Date(d.timestamp) > sevenDaysAgo
-    );
-    
-    saveData(filteredData);
-  } catch (error) {
-    console.error('計測スキップ');
+  lastRunAt = now;
+  const config = loadConfig();
+  const budget = budgetStatus(config, now);
+  if (isSkipped(config, new Date(now))) {
+    // 起動直後が計測しない時間帯だった場合（予定はこの時間帯を避けて組まれる）
+    console.log('計測しない時間帯のためスキップしました');
+  } else if (budget?.state === 'exhausted') {
+    console.log(`通信量の上限に達したため定期計測をスキップしました（${budget.usedPercent}%使用）`);
+  } else if (measuring) {
+    // 手動計測の実行中なら、その結果を今回の計測とみなす
+    console.log('手動計測の実行中のため定期計測をスキップしました');
+  } else {
+    if (budget?.state === 'throttled') {
+      console.log(`通信量の節約モード（${budget.usedPercent}%使用）: ${budget.method}${budget.minIntervalMinutes ? `, 最短${budget.minIntervalMinutes}分間隔` : ''}`);
+    }
+    try {
+      await runMeasurement(beginMeasureJob(false), applyBudget(config, budget));
+    } catch (error: any) {
+      // ここで止めると次回がスケジュールされないため、記録して続ける
+      console.error('定期計測エラー:', error.message);
+    }
   }
-  
+
   // 設定を再読み込みして次回のスケジュール
-  const config = loadConfig();
-  console.log(`${config.intervalMinutes}分後に次回計測...\n`);
-  
-  if (timeoutId) {
-    clearTimeout(timeoutId);
+  scheduleNextRun();
+}
+
+// APIから要求された手動計測を拾って実行する（定期計測のスケジュールは変えない）
+async function runJobLoop() {
+  if (jobTimeoutId) {
+    clearTimeout(jobTimeoutId);
+    jobTimeoutId = null;
+  }
+
+  if (!measuring) {
+    try {
+      const job = claimMeasureJob();
+      if (job) {
+        console.log('手動計測を開始します');
+        await runMeasurement(job);
+      }
+    } catch (error: any) {
+      console.error('手動計測エラー:', error.message);
+    }
+  }
+
+  jobTimeoutId = setTimeout(() => runJobLoop(), JOB_POLL_INTERVAL_MS);
+}
+
+// 集約サーバーへ送信待ちの結果を送る。オフラインの間はローカルに貯めて定期的に再送する
+async function runUploadLoop() {
+  if (uploadTimeoutId) {
+    clearTimeout(uploadTimeoutId);
+    uploadTimeoutId = null;
+  }
+
+  const { probe } = loadConfig();
+  if (probe?.centralUrl) {
+    try {
+      const sent = await flushUploads(probe);
+      if (sent > 0) console.log(`集約サーバーへ ${sent} 件送信しました`);
+      uploadFailing = false;
+    } catch (error: any) {
+      // 接続できない間は最初の1回だけ表示する
+      if (!uploadFailing) console.warn('集約サーバーへの送信に失敗しました（再接続後に送信します）:', error.message);
+      uploadFailing = true;
+    }
   }
-  
-  timeoutId = setTimeout(() => runMonitor(), config.intervalMinutes * 60 * 1000);
+
+  uploadTimeoutId = setTimeout(() => runUploadLoop(), UPLOAD_RETRY_INTERVAL_MS);
 }
 
-// 初回起動時の設定確認
-const initialConfig = loadConfig();
-console.log(`
+// 速度計測とは別の間隔で軽量な疎通確認を行う
+async function runHeartbeatLoop() {
+  const { heartbeat } = loadConfig();
+  lastHeartbeatAt = Date.now();
+
+  if (heartbeat.enabled) {
+    try {
+      const sample = await runHeartbeat(heartbeat);
+      insertHeartbeat(sample);
+      if (sample.loss > 0) {
+        console.warn(`疎通確認: 損失率 ${sample.loss}% (レイテンシ ${sample.latency ?? '-'} ms)`);
+      }
+    } catch (error: any) {
+      console.error('疎通確認エラー:', error.message);
+    }
+  }
+
+  scheduleNextHeartbeat();
+}
+
+// スケジューラーを起動し、APIサーバーから操作するためのハンドルを返す
+export function startMonitor(): SchedulerControl {
+  // 初回起動時の設定確認
+  const initialConfig = loadConfig();
+  console.log(`
 ╔════════════════════════════════════════════╗
-║   ネット速度モニター (Ookla Speedtest)   ║
+║            ネット速度モニター            ║
 ╚════════════════════════════════════════════╝
 
-⚙️  計測間隔: ${initialConfig.intervalMinutes}分
-📊 データ保持: 7日間
-⚠️  データ使用量: 約${Math.round(24 * 60 / initialConfig.intervalMinutes * 150)}MB/日
+⚙️  計測間隔: ${initialConfig.intervalMinutes}分${initialConfig.schedule?.length ? `（時間帯ルール ${initialConfig.schedule.length}件）` : ''}
+🔌 計測方式: ${providerOrder(initialConfig).join(' → ')}
+💓 疎通確認: ${initialConfig.heartbeat.enabled ? `${initialConfig.heartbeat.intervalSeconds}秒間隔` : '無効'}
+📊 データ保持: ${formatRetention(initialConfig.retention)}
+📶 通信量の上限: ${initialConfig.budget ? formatBudget(initialConfig.budget) : 'なし'}
+🛰  プローブ: ${initialConfig.probe ? `${initialConfig.probe.id}${initialConfig.probe.centralUrl ? ` → ${initialConfig.probe.centralUrl}` : ''}` : 'このホストのみ'}
+⚠️  データ使用量: 約${Math.round(estimateRunsPerDay(initialConfig) * 150)}MB/日
 
 💡 ヒント:
   - 計測間隔は30分以上を推奨
   - Webダッシュボードから設定変更可能
 `);
 
-runMonitor();
+  runMonitor();
+  runJobLoop();
+  runHeartbeatLoop();
+  runUploadLoop();
+
+  return {
+    reschedule: () => {
+      scheduleNextRun();
+      scheduleNextHeartbeat();
+    },
+    measureNow: () => {
+      if (!measuring) {
+        runJobLoop();
+      }
+    },
+  };
+}
+
+// `npm run monitor` で単独起動した場合は、APIサーバーからの指示を制御用ポートで受ける
+if (isEntryPoint(import.meta.url)) {
+  startControlServer(startMonitor());
+}
@@ -0,0 +1,992 @@
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { SpeedResult } from './providers';
+import type { SpeedBucket } from './aggregate';
+import type { HeartbeatSample } from './heartbeat';
+import type { Annotation, AnnotationCategory } from './annotations';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const DB_FILE = path.join(__dirname, 'speed_data.db');
+const LEGACY_DATA_FILE = path.join(__dirname, 'speed_data.json');
+
+export interface MeasurementQuery {
+  from?: string;
+  to?: string;
+  // プローブID（このホスト自身は空文字）。未指定なら全プローブ
+  probe?: string;
+  // 計測方式・手動計測（true なら手動のみ、false なら定期のみ）・サーバー名/ISPの部分一致で絞り込む
+  method?: string;
+  manual?: boolean;
+  text?: string;
+  // 並び順（未指定は時刻の古い順）
+  sort?: MeasurementSortKey;
+  descending?: boolean;
+  // 指定した位置より後のレコードから返す（ページング用）
+  after?: MeasurementCursor;
+  limit?: number;
+}
+
+export type MeasurementSortKey = 'timestamp' | 'download' | 'upload' | 'ping' | 'jitter' | 'server';
+
+// ページングの位置。同じ時刻の計測がプローブごとにあるため、行IDまで含めて一意にする
+export interface MeasurementCursor {
+  timestamp: string;
+  id: number;
+}
+
+export type RollupResolution = 'hour' | 'day';
+
+export interface FailureRecord {
+  timestamp: string;
+  errorClass: string;
+  message: string;
+  method?: string;
+}
+
+export interface AlertEvent {
+  ruleId: string;
+  ruleName: string;
+  state: 'fired' | 'resolved';
+  timestamp: string;
+  value: number;
+  message: string;
+}
+
+export type MeasureJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface MeasureJob {
+  id: string;
+  status: MeasureJobStatus;
+  // ダッシュボードやAPIから要求された計測か（定期計測は false）
+  manual: boolean;
+  requestedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: SpeedResult;
+  error?: string;
+}
+
+export interface StoredEvent {
+  id: number;
+  type: string;
+  timestamp: string;
+  payload: unknown;
+}
+
+interface RollupRow {
+  timestamp: string;
+  count: number;
+  download: string;
+  upload: string;
+  ping: string;
+  jitter: string;
+}
+
+interface MeasurementRow {
+  timestamp: string;
+  download: number;
+  upload: number;
+  ping: number;
+  jitter: number;
+  server: string | null;
+  isp: string | null;
+  method: string | null;
+  manual: number;
+  download_bytes: number | null;
+  upload_bytes: number | null;
+  packet_loss: number | null;
+  download_latency: number | null;
+  upload_latency: number | null;
+  server_id: number | null;
+  server_host: string | null;
+  server_location: string | null;
+  external_ip: string | null;
+  internal_ip: string | null;
+  interface_name: string | null;
+  is_vpn: number | null;
+  result_url: string | null;
+  probe: string;
+  hostname: string | null;
+  network: string | null;
+}
+
+export interface ProbeSummary {
+  probe: string;
+  hostname?: string;
+  network?: string;
+  count: number;
+  lastSeen: string;
+}
+
+interface AnnotationRow {
+  id: string;
+  timestamp: string;
+  end_time: string | null;
+  label: string;
+  category: AnnotationCategory;
+  author: string | null;
+  created_at: string;
+}
+
+interface MeasureJobRow {
+  id: string;
+  status: MeasureJobStatus;
+  manual: number;
+  requested_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  result: string | null;
+  error: string | null;
+}
+
+const INSERT_MEASUREMENT = `
+  INSERT OR IGNORE INTO measurements
+    (timestamp, download, upload, ping, jitter, server, isp, method, manual, download_bytes, upload_bytes,
+      packet_loss, download_latency, upload_latency, server_id, server_host, server_location,
+      external_ip, internal_ip, interface_name, is_vpn, result_url, probe, hostname, network)
+  VALUES (@timestamp, @download, @upload, @ping, @jitter, @server, @isp, @method, @manual, @downloadBytes, @uploadBytes,
+    @packetLoss, @downloadLatency, @uploadLatency, @serverId, @serverHost, @serverLocation,
+    @externalIp, @internalIp, @interfaceName, @isVpn, @resultUrl, @probe, @hostname, @network)
+`;
+
+const MEASUREMENT_COLUMNS = `timestamp, download, upload, ping, jitter, server, isp, method, manual, download_bytes, upload_bytes,
+  packet_loss, download_latency, upload_latency, server_id, server_host, server_location,
+  external_ip, internal_ip, interface_name, is_vpn, result_url, probe, hostname, network`;
+
+// 同じ時刻でもプローブが違えば別の計測として持つ
+const CREATE_MEASUREMENTS = `
+  CREATE TABLE IF NOT EXISTS measurements (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp TEXT NOT NULL,
+    download REAL NOT NULL,
+    upload REAL NOT NULL,
+    ping REAL NOT NULL,
+    jitter REAL NOT NULL,
+    server TEXT,
+    isp TEXT,
+    method TEXT,
+    manual INTEGER NOT NULL DEFAULT 0,
+    download_bytes INTEGER,
+    upload_bytes INTEGER,
+    packet_loss REAL,
+    download_latency REAL,
+    upload_latency REAL,
+    server_id INTEGER,
+    server_host TEXT,
+    server_location TEXT,
+    external_ip TEXT,
+    internal_ip TEXT,
+    interface_name TEXT,
+    is_vpn INTEGER,
+    result_url TEXT,
+    probe TEXT NOT NULL DEFAULT '',
+    hostname TEXT,
+    network TEXT,
+    UNIQUE (probe, timestamp)
+  );
+`;
+
+// 集計データもプローブごとに持つ（このホスト自身は probe が空文字）
+const CREATE_ROLLUPS = `
+  CREATE TABLE IF NOT EXISTS rollups (
+    resolution TEXT NOT NULL,
+    probe TEXT NOT NULL DEFAULT '',
+    timestamp TEXT NOT NULL,
+    count INTEGER NOT NULL,
+    download TEXT NOT NULL,
+    upload TEXT NOT NULL,
+    ping TEXT NOT NULL,
+    jitter TEXT NOT NULL,
+    PRIMARY KEY (resolution, probe, timestamp)
+  );
+`;
+
+// モニターが拾わないまま／終わらないまま残った計測ジョブを失敗扱いにするまでの時間
+const QUEUED_JOB_TIMEOUT_MS = 60 * 1000;
+const RUNNING_JOB_TIMEOUT_MS = 15 * 60 * 1000;
+
+let db: Database.Database | null = null;
+
+function migrate(database: Database.Database) {
+  database.exec(CREATE_MEASUREMENTS);
+  database.exec(CREATE_ROLLUPS);
+  database.exec(`
+
+    CREATE TABLE IF NOT EXISTS failures (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp TEXT NOT NULL,
+      error_class TEXT NOT NULL,
+      message TEXT NOT NULL,
+      method TEXT
+    );
+    CREATE INDEX IF NOT EXISTS failures_timestamp ON failures (timestamp);
+
+    CREATE TABLE IF NOT EXISTS alert_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      rule_id TEXT NOT NULL,
+      rule_name TEXT NOT NULL,
+      state TEXT NOT NULL,
+      timestamp TEXT NOT NULL,
+      value REAL NOT NULL,
+      message TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS alert_events_rule ON alert_events (rule_id, id);
+
+    CREATE TABLE IF NOT EXISTS counters (
+      name TEXT PRIMARY KEY,
+      value REAL NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      timestamp TEXT NOT NULL,
+      payload TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS heartbeats (
+      timestamp TEXT PRIMARY KEY,
+      latency REAL,
+      loss REAL NOT NULL,
+      details TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS measure_jobs (
+      id TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      manual INTEGER NOT NULL,
+      requested_at TEXT NOT NULL,
+      started_at TEXT,
+      finished_at TEXT,
+      result TEXT,
+      error TEXT
+    );
+    CREATE INDEX IF NOT EXISTS measure_jobs_status ON measure_jobs (status, requested_at);
+
+    -- 計測の通信量（ローカル日付ごと）。生データの間引きとは関係なく保持する
+    CREATE TABLE IF NOT EXISTS data_usage (
+      day TEXT PRIMARY KEY,
+      bytes REAL NOT NULL
+    );
+
+    -- 計測結果の変化を説明する出来事（ルーター交換・再起動など）
+    CREATE TABLE IF NOT EXISTS annotations (
+      id TEXT PRIMARY KEY,
+      timestamp TEXT NOT NULL,
+      end_time TEXT,
+      label TEXT NOT NULL,
+      category TEXT NOT NULL,
+      author TEXT,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS annotations_timestamp ON annotations (timestamp);
+
+    -- 集約サーバーへ未送信の計測結果（プローブ側）
+    CREATE TABLE IF NOT EXISTS upload_queue (
+      timestamp TEXT PRIMARY KEY,
+      payload TEXT NOT NULL
+    );
+  `);
+
+  addColumn(database, 'measurements', 'manual', 'INTEGER NOT NULL DEFAULT 0');
+  addColumn(database, 'measurements', 'download_bytes', 'INTEGER');
+  addColumn(database, 'measurements', 'upload_bytes', 'INTEGER');
+  migrateMeasurementsToProbes(database);
+  migrateRollupsToProbes(database);
+  addColumn(database, 'measurements', 'packet_loss', 'REAL');
+  addColumn(database, 'measurements', 'download_latency', 'REAL');
+  addColumn(database, 'measurements', 'upload_latency', 'REAL');
+  addColumn(database, 'measurements', 'server_id', 'INTEGER');
+  addColumn(database, 'measurements', 'server_host', 'TEXT');
+  addColumn(database, 'measurements', 'server_location', 'TEXT');
+  addColumn(database, 'measurements', 'external_ip', 'TEXT');
+  addColumn(database, 'measurements', 'internal_ip', 'TEXT');
+  addColumn(database, 'measurements', 'interface_name', 'TEXT');
+  addColumn(database, 'measurements', 'is_vpn', 'INTEGER');
+  addColumn(database, 'measurements', 'result_url', 'TEXT');
+  database.exec('CREATE INDEX IF NOT EXISTS measurements_timestamp ON measurements (timestamp)');
+}
+
+function columnNames(database: Database.Database, table: string): string[] {
+  return (database.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+}
+
+// 後から追加した列を既存のDBにも足す
+function addColumn(database: Database.Database, table: string, column: string, definition: string) {
+  if (!columnNames(database, table).includes(column)) {
+    database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// timestamp だけの一意制約を (probe, timestamp) に変えるため、テーブルを作り直す
+function migrateMeasurementsToProbes(database: Database.Database) {
+  if (columnNames(database, 'measurements').includes('probe')) {
+    return;
+  }
+  const columns = 'id, timestamp, download, upload, ping, jitter, server, isp, method, manual, download_bytes, upload_bytes';
+  database.transaction(() => {
+    database.exec('ALTER TABLE measurements RENAME TO measurements_legacy');
+    database.exec(CREATE_MEASUREMENTS);
+    database.exec(`INSERT INTO measurements (${columns}) SELECT ${columns} FROM measurements_legacy`);
+    database.exec('DROP TABLE measurements_legacy');
+  })();
+}
+
+// 主キーに probe を加えるため、テーブルを作り直す（既存の集計はこのホスト自身のものとして残す）
+function migrateRollupsToProbes(database: Database.Database) {
+  if (columnNames(database, 'rollups').includes('probe')) {
+    return;
+  }
+  const columns = 'resolution, timestamp, count, download, upload, ping, jitter';
+  database.transaction(() => {
+    database.exec('ALTER TABLE rollups RENAME TO rollups_legacy');
+    database.exec(CREATE_ROLLUPS);
+    database.exec(`INSERT INTO rollups (${columns}) SELECT ${columns} FROM rollups_legacy`);
+    database.exec('DROP TABLE rollups_legacy');
+  })();
+}
+
+// 旧形式の speed_data.json を一度だけ取り込み、取り込み済みとしてリネームする
+function importLegacyJson(database: Database.Database) {
+  if (!fs.existsSync(LEGACY_DATA_FILE)) {
+    return;
+  }
+
+  let records: SpeedResult[];
+  try {
+    records = JSON.parse(fs.readFileSync(LEGACY_DATA_FILE, 'utf-8'));
+  } catch (error) {
+    console.error('speed_data.json の読み込みに失敗しました:', error);
+    return;
+  }
+  // 配列でなければ取り込まず、読み込み失敗と同じくファイルは残す
+  if (!Array.isArray(records)) {
+    console.error('speed_data.json の形式が不正です（配列ではありません）');
+    return;
+  }
+
+  const insert = database.prepare(INSERT_MEASUREMENT);
+  const importAll = database.transaction((rows: SpeedResult[]) => {
+    for (const row of rows) {
+      insert.run(toParams(row));
+    }
+  });
+  importAll(records);
+
+  fs.renameSync(LEGACY_DATA_FILE, `${LEGACY_DATA_FILE}.imported`);
+  console.log(`speed_data.json から ${records.length} 件を取り込みました`);
+}
+
+function toParams(result: SpeedResult) {
+  return {
+    timestamp: result.timestamp,
+    download: result.download,
+    upload: result.upload,
+    ping: result.ping,
+    jitter: result.jitter,
+    server: result.server ?? null,
+    isp: result.isp ?? null,
+    method: result.method ?? null,
+    manual: result.manual ? 1 : 0,
+    downloadBytes: result.downloadBytes ?? null,
+    uploadBytes: result.uploadBytes ?? null,
+    packetLoss: result.packetLoss ?? null,
+    downloadLatency: result.downloadLatency ?? null,
+    uploadLatency: result.uploadLatency ?? null,
+    serverId: result.serverId ?? null,
+    serverHost: result.serverHost ?? null,
+    serverLocation: result.serverLocation ?? null,
+    externalIp: result.externalIp ?? null,
+    internalIp: result.internalIp ?? null,
+    interfaceName: result.interfaceName ?? null,
+    isVpn: result.isVpn === undefined ? null : result.isVpn ? 1 : 0,
+    resultUrl: result.resultUrl ?? null,
+    probe: result.probe ?? '',
+    hostname: result.hostname ?? null,
+    network: result.network ?? null,
+  };
+}
+
+function fromRow(row: MeasurementRow): SpeedResult {
+  return {
+    timestamp: row.timestamp,
+    download: row.download,
+    upload: row.upload,
+    ping: row.ping,
+    jitter: row.jitter,
+    server: row.server ?? undefined,
+    isp: row.isp ?? undefined,
+    method: (row.method ?? 'ookla') as SpeedResult['method'],
+    ...(row.manual ? { manual: true } : {}),
+    downloadBytes: row.download_bytes ?? undefined,
+    uploadBytes: row.upload_bytes ?? undefined,
+    packetLoss: row.packet_loss ?? undefined,
+    downloadLatency: row.download_latency ?? undefined,
+    uploadLatency: row.upload_latency ?? undefined,
+    serverId: row.server_id ?? undefined,
+    serverHost: row.server_host ?? undefined,
+    serverLocation: row.server_location ?? undefined,
+    externalIp: row.external_ip ?? undefined,
+    internalIp: row.internal_ip ?? undefined,
+    interfaceName: row.interface_name ?? undefined,
+    isVpn: row.is_vpn === null ? undefined : row.is_vpn === 1,
+    resultUrl: row.result_url ?? undefined,
+    probe: row.probe || undefined,
+    hostname: row.hostname ?? undefined,
+    network: row.network ?? undefined,
+  };
+}
+
+function fromAnnotationRow(row: AnnotationRow): Annotation {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    endTime: row.end_time ?? undefined,
+    label: row.label,
+    category: row.category,
+    author: row.author ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function fromJobRow(row: MeasureJobRow): MeasureJob {
+  return {
+    id: row.id,
+    status: row.status,
+    manual: row.manual === 1,
+    requestedAt: row.requested_at,
+    startedAt: row.started_at ?? undefined,
+    finishedAt: row.finished_at ?? undefined,
+    result: row.result ? JSON.parse(row.result) : undefined,
+    error: row.error ?? undefined,
+  };
+}
+
+// モニターとAPIサーバーの両プロセスから共有する。WALモードで読み書きを並行させる
+export function getDb(): Database.Database {
+  if (!db) {
+    db = new Database(DB_FILE);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    migrate(db);
+    importLegacyJson(db);
+  }
+  return db;
+}
+
+export function insertMeasurement(result: SpeedResult) {
+  getDb().prepare(INSERT_MEASUREMENT).run(toParams(result));
+}
+
+// 既存と同じタイムスタンプのレコードは無視し、追加した件数を返す
+export function insertMeasurements(results: SpeedResult[]): number {
+  const database = getDb();
+  const insert = database.prepare(INSERT_MEASUREMENT);
+  return database.transaction(() =>
+    results.reduce((count, result) => count + insert.run(toParams(result)).changes, 0)
+  )();
+}
+
+// 並べ替えに使う式（サーバー名が未記録の行は空文字として扱う）
+const SORT_EXPRESSIONS: Record<MeasurementSortKey, string> = {
+  timestamp: 'timestamp',
+  download: 'download',
+  upload: 'upload',
+  ping: 'ping',
+  jitter: 'jitter',
+  server: "coalesce(server, '')",
+};
+
+const MEASUREMENT_FILTERS = `
+  (@from IS NULL OR timestamp >= @from)
+  AND (@to IS NULL OR timestamp <= @to)
+  AND (@probe IS NULL OR probe = @probe)
+  AND (@method IS NULL OR method = @method)
+  AND (@manual IS NULL OR manual = @manual)
+  AND (@text IS NULL OR instr(lower(coalesce(server, '') || ' ' || coalesce(isp, '')), @text) > 0)`;
+
+function filterParams(query: MeasurementQuery) {
+  return {
+    from: query.from ?? null,
+    to: query.to ?? null,
+    probe: query.probe ?? null,
+    method: query.method ?? null,
+    manual: query.manual === undefined ? null : query.manual ? 1 : 0,
+    text: query.text ? query.text.toLowerCase() : null,
+  };
+}
+
+// カーソルは最後に返した行（時刻と行ID）を指す。時刻以外で並べるときはその行の値を引いて続きを決める
+function selectMeasurements(query: MeasurementQuery): (MeasurementRow & { id: number })[] {
+  const sort = SORT_EXPRESSIONS[query.sort ?? 'timestamp'];
+  const direction = query.descending ? 'DESC' : 'ASC';
+  const afterValue = query.sort === undefined || query.sort === 'timestamp'
+    ? '@afterTimestamp'
+    : `(SELECT ${sort} FROM measurements WHERE id = @afterId)`;
+  return getDb().prepare(`
+    SELECT id, ${MEASUREMENT_COLUMNS}
+    FROM measurements
+    WHERE ${MEASUREMENT_FILTERS}
+      AND (@afterId IS NULL OR (${sort}, id) ${query.descending ? '<' : '>'} (${afterValue}, @afterId))
+    ORDER BY ${sort} ${direction}, id ${direction}
+    LIMIT @limit
+  `).all({
+    ...filterParams(query),
+    afterTimestamp: query.after?.timestamp ?? null,
+    afterId: query.after?.id ?? null,
+    limit: query.limit ?? -1,
+  }) as (MeasurementRow & { id: number })[];
+}
+
+export function queryMeasurements(query: MeasurementQuery = {}): SpeedResult[] {
+  return selectMeasurements(query).map(fromRow);
+}
+
+// limit 件ちょうど返したときは、続きを取得するための位置も返す
+export function queryMeasurementPage(query: MeasurementQuery & { limit: number }): { results: SpeedResult[]; next?: MeasurementCursor } {
+  const rows = selectMeasurements(query);
+  const last = rows[rows.length - 1];
+  return {
+    results: rows.map(fromRow),
+    next: rows.length === query.limit ? { timestamp: last.timestamp, id: last.id } : undefined,
+  };
+}
+
+// ページングの位置や並び順に関係なく、絞り込み条件に合う件数
+export function countMeasurements(query: MeasurementQuery = {}): number {
+  const row = getDb().prepare(`
+    SELECT COUNT(*) AS count
+    FROM measurements
+    WHERE ${MEASUREMENT_FILTERS}
+  `).get(filterParams(query)) as { count: number };
+  return row.count;
+}
+
+export function latestMeasurement(): SpeedResult | null {
+  const row = getDb().prepare(`
+    SELECT ${MEASUREMENT_COLUMNS}
+    FROM measurements
+    ORDER BY timestamp DESC
+    LIMIT 1
+  `).get() as MeasurementRow | undefined;
+  return row ? fromRow(row) : null;
+}
+
+// プローブごとの最新の計測（このホスト自身は probe が空文字）
+export function latestMeasurementsByProbe(): SpeedResult[] {
+  const rows = getDb().prepare(`
+    SELECT ${MEASUREMENT_COLUMNS}
+    FROM measurements AS m
+    WHERE timestamp = (SELECT MAX(timestamp) FROM measurements WHERE probe = m.probe)
+    ORDER BY probe
+  `).all() as MeasurementRow[];
+  return rows.map(fromRow);
+}
+
+export function deleteMeasurementsBefore(timestamp: string): number {
+  return getDb().prepare('DELETE FROM measurements WHERE timestamp < ?').run(timestamp).changes;
+}
+
+// 生データ・集計データ・失敗記録・疎通確認をすべて削除
+export function clearMeasurements() {
+  getDb().exec('DELETE FROM measurements; DELETE FROM rollups; DELETE FROM failures; DELETE FROM heartbeats;');
+}
+
+// 集計済みバケットをプローブごとに保存し、元になったデータを同じトランザクションで削除する
+export function replaceWithRollups(
+  resolution: RollupResolution,
+  bucketsByProbe: Map<string, SpeedBucket[]>,
+  deleteSource: () => void
+) {
+  const database = getDb();
+  const insert = database.prepare(`
+    INSERT OR REPLACE INTO rollups (resolution, probe, timestamp, count, download, upload, ping, jitter)
+    VALUES (@resolution, @probe, @timestamp, @count, @download, @upload, @ping, @jitter)
+  `);
+  database.transaction(() => {
+    for (const [probe, buckets] of Array.from(bucketsByProbe.entries())) {
+      for (const bucket of buckets) {
+        insert.run({
+          resolution,
+          probe,
+          timestamp: bucket.timestamp,
+          count: bucket.count,
+          download: JSON.stringify(bucket.download),
+          upload: JSON.stringify(bucket.upload),
+          ping: JSON.stringify(bucket.ping),
+          jitter: JSON.stringify(bucket.jitter),
+        });
+      }
+    }
+    deleteSource();
+  })();
+}
+
+// probe 未指定なら全プローブの集計を返す（同じ時刻のバケットが複数あり得る）
+export function queryRollups(resolution: RollupResolution, query: MeasurementQuery = {}): SpeedBucket[] {
+  const rows = getDb().prepare(`
+    SELECT timestamp, count, download, upload, ping, jitter
+    FROM rollups
+    WHERE resolution = @resolution
+      AND (@from IS NULL OR timestamp >= @from)
+      AND (@to IS NULL OR timestamp <= @to)
+      AND (@probe IS NULL OR probe = @probe)
+    ORDER BY timestamp
+  `).all({ resolution, from: query.from ?? null, to: query.to ?? null, probe: query.probe ?? null }) as RollupRow[];
+  return rows.map(row => ({
+    timestamp: row.timestamp,
+    count: row.count,
+    download: JSON.parse(row.download),
+    upload: JSON.parse(row.upload),
+    ping: JSON.parse(row.ping),
+    jitter: JSON.parse(row.jitter),
+  }));
+}
+
+// 指定時刻より前の集計データを持つプローブの一覧
+export function queryRollupProbes(resolution: RollupResolution, before: string): string[] {
+  const rows = getDb().prepare(`
+    SELECT DISTINCT probe FROM rollups WHERE resolution = ? AND timestamp < ? ORDER BY probe
+  `).all(resolution, before) as { probe: string }[];
+  return rows.map(row => row.probe);
+}
+
+export function deleteRollupsBefore(resolution: RollupResolution, timestamp: string): number {
+  return getDb().prepare('DELETE FROM rollups WHERE resolution = ? AND timestamp < ?').run(resolution, timestamp).changes;
+}
+
+export function insertFailure(failure: FailureRecord) {
+  getDb().prepare(`
+    INSERT INTO failures (timestamp, error_class, message, method)
+    VALUES (@timestamp, @errorClass, @message, @method)
+  `).run({ ...failure, method: failure.method ?? null });
+}
+
+export function queryFailures(query: MeasurementQuery = {}): FailureRecord[] {
+  const rows = getDb().prepare(`
+    SELECT timestamp, error_class AS errorClass, message, method
+    FROM failures
+    WHERE (@from IS NULL OR timestamp >= @from)
+      AND (@to IS NULL OR timestamp <= @to)
+    ORDER BY timestamp
+  `).all({ from: query.from ?? null, to: query.to ?? null }) as (FailureRecord & { method: string | null })[];
+  return rows.map(row => ({ ...row, method: row.method ?? undefined }));
+}
+
+// 指定時刻より後でこのホスト自身が最初に成功した計測の時刻。
+// 失敗はこのホストの計測でしか記録しないため、他のプローブの計測は見ない。
+// 生データが残っていない期間は1時間集計・日次集計の開始時刻で代用する
+export function nextSuccessAfter(timestamp: string): string | null {
+  const row = getDb().prepare(`
+    SELECT MIN(timestamp) AS timestamp FROM (
+      SELECT MIN(timestamp) AS timestamp FROM measurements WHERE probe = '' AND timestamp > @timestamp
+      UNION ALL
+      SELECT MIN(timestamp) AS timestamp FROM rollups WHERE probe = '' AND timestamp > @timestamp
+    )
+  `).get({ timestamp }) as { timestamp: string | null };
+  return row.timestamp;
+}
+
+// 記録上もっとも古い時刻（計測・集計・失敗のいずれか）
+export function earliestTimestamp(): string | null {
+  const row = getDb().prepare(`
+    SELECT MIN(timestamp) AS timestamp FROM (
+      SELECT MIN(timestamp) AS timestamp FROM measurements
+      UNION ALL
+      SELECT MIN(timestamp) AS timestamp FROM rollups
+      UNION ALL
+      SELECT MIN(timestamp) AS timestamp FROM failures
+    )
+  `).get() as { timestamp: string | null };
+  return row.timestamp;
+}
+
+export function insertHeartbeat(sample: HeartbeatSample) {
+  const { timestamp, latency, loss, ...details } = sample;
+  getDb().prepare(`
+    INSERT OR REPLACE INTO heartbeats (timestamp, latency, loss, details)
+    VALUES (?, ?, ?, ?)
+  `).run(timestamp, latency, loss, JSON.stringify(details));
+}
+
+export function queryHeartbeats(query: MeasurementQuery = {}): HeartbeatSample[] {
+  const rows = getDb().prepare(`
+    SELECT timestamp, latency, loss, details
+    FROM heartbeats
+    WHERE (@from IS NULL OR timestamp >= @from)
+      AND (@to IS NULL OR timestamp <= @to)
+    ORDER BY timestamp
+  `).all({ from: query.from ?? null, to: query.to ?? null }) as { timestamp: string; latency: number | null; loss: number; details: string }[];
+  return rows.map(row => ({
+    timestamp: row.timestamp,
+    latency: row.latency,
+    loss: row.loss,
+    ...JSON.parse(row.details),
+  }));
+}
+
+export function deleteHeartbeatsBefore(timestamp: string): number {
+  return getDb().prepare('DELETE FROM heartbeats WHERE timestamp < ?').run(timestamp).changes;
+}
+
+// このホストで最後に成功した計測以降の失敗回数（失敗はこのホストの分だけ記録される）
+export function countFailuresSinceLastSuccess(probe: string = ''): number {
+  const row = getDb().prepare(`
+    SELECT COUNT(*) AS count FROM failures
+    WHERE timestamp > COALESCE((SELECT MAX(timestamp) FROM measurements WHERE probe = ?), '')
+  `).get(probe) as { count: number };
+  return row.count;
+}
+
+export function insertAlertEvent(event: AlertEvent) {
+  getDb().prepare(`
+    INSERT INTO alert_events (rule_id, rule_name, state, timestamp, value, message)
+    VALUES (@ruleId, @ruleName, @state, @timestamp, @value, @message)
+  `).run(event);
+}
+
+// 最新のイベントが「発火」のままになっているルール
+export function activeAlertRuleIds(): string[] {
+  const rows = getDb().prepare(`
+    SELECT rule_id AS ruleId FROM alert_events e
+    WHERE id = (SELECT MAX(id) FROM alert_events WHERE rule_id = e.rule_id)
+      AND state = 'fired'
+  `).all() as { ruleId: string }[];
+  return rows.map(row => row.ruleId);
+}
+
+export function queryAlertEvents(query: MeasurementQuery = {}): AlertEvent[] {
+  return getDb().prepare(`
+    SELECT rule_id AS ruleId, rule_name AS ruleName, state, timestamp, value, message
+    FROM alert_events
+    WHERE (@from IS NULL OR timestamp >= @from)
+      AND (@to IS NULL OR timestamp <= @to)
+    ORDER BY id DESC
+    LIMIT @limit
+  `).all({ from: query.from ?? null, to: query.to ?? null, limit: query.limit ?? -1 }) as AlertEvent[];
+}
+
+// モニターが更新し、APIサーバーの /metrics が読み出す累積カウンター
+export function incrementCounters(increments: Record<string, number>) {
+  const database = getDb();
+  const upsert = database.prepare(`
+    INSERT INTO counters (name, value) VALUES (?, ?)
+    ON CONFLICT (name) DO UPDATE SET value = value + excluded.value
+  `);
+  database.transaction(() => {
+    for (const [name, value] of Object.entries(increments)) {
+      upsert.run(name, value);
+    }
+  })();
+}
+
+export function readCounters(): Record<string, number> {
+  const rows = getDb().prepare('SELECT name, value FROM counters').all() as { name: string; value: number }[];
+  return Object.fromEntries(rows.map(row => [row.name, row.value]));
+}
+
+// プロセス間でイベントを受け渡すための追記専用ログ（古いものは随時削除）
+export function appendEvent(type: string, payload: unknown) {
+  const database = getDb();
+  database.prepare('INSERT INTO events (type, timestamp, payload) VALUES (?, ?, ?)')
+    .run(type, new Date().toISOString(), JSON.stringify(payload ?? null));
+  database.prepare('DELETE FROM events WHERE timestamp < ?')
+    .run(new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+}
+
+export function readEventsAfter(id: number): StoredEvent[] {
+  const rows = getDb().prepare(`
+    SELECT id, type, timestamp, payload FROM events WHERE id > ? ORDER BY id
+  `).all(id) as { id: number; type: string; timestamp: string; payload: string }[];
+  return rows.map(row => ({ ...row, payload: JSON.parse(row.payload) }));
+}
+
+export function latestEventId(): number {
+  const row = getDb().prepare('SELECT MAX(id) AS id FROM events').get() as { id: number | null };
+  return row.id ?? 0;
+}
+
+function findMeasureJob(id: string): MeasureJob | null {
+  const row = getDb().prepare('SELECT * FROM measure_jobs WHERE id = ?').get(id) as MeasureJobRow | undefined;
+  return row ? fromJobRow(row) : null;
+}
+
+// モニターが停止している・途中で落ちたなどで残ったジョブを失敗にする
+function expireStaleMeasureJobs(now: number) {
+  const database = getDb();
+  const finishedAt = new Date(now).toISOString();
+  database.prepare(`
+    UPDATE measure_jobs SET status = 'failed', finished_at = ?, error = 'Monitor did not pick up the request'
+    WHERE status = 'queued' AND requested_at < ?
+  `).run(finishedAt, new Date(now - QUEUED_JOB_TIMEOUT_MS).toISOString());
+  database.prepare(`
+    UPDATE measure_jobs SET status = 'failed', finished_at = ?, error = 'Measurement did not finish'
+    WHERE status = 'running' AND started_at < ?
+  `).run(finishedAt, new Date(now - RUNNING_JOB_TIMEOUT_MS).toISOString());
+}
+
+export function getMeasureJob(id: string, now: number = Date.now()): MeasureJob | null {
+  expireStaleMeasureJobs(now);
+  return findMeasureJob(id);
+}
+
+// 手動計測を要求する。待機中・実行中の計測があればそのジョブに合流する
+export function requestMeasureJob(now: number = Date.now()): { job: MeasureJob; merged: boolean } {
+  const database = getDb();
+  return database.transaction(() => {
+    expireStaleMeasureJobs(now);
+    const active = database.prepare(`
+      SELECT * FROM measure_jobs WHERE status IN ('queued', 'running') ORDER BY requested_at LIMIT 1
+    `).get() as MeasureJobRow | undefined;
+    if (active) {
+      return { job: fromJobRow(active), merged: true };
+    }
+
+    const id = crypto.randomUUID();
+    database.prepare(`
+      INSERT INTO measure_jobs (id, status, manual, requested_at) VALUES (?, 'queued', 1, ?)
+    `).run(id, new Date(now).toISOString());
+    return { job: findMeasureJob(id)!, merged: false };
+  })();
+}
+
+// モニター側: 待機中の手動計測を1件取り出して実行中にする
+export function claimMeasureJob(): MeasureJob | null {
+  const database = getDb();
+  return database.transaction(() => {
+    const row = database.prepare(`
+      SELECT id FROM measure_jobs WHERE status = 'queued' ORDER BY requested_at LIMIT 1
+    `).get() as { id: string } | undefined;
+    if (!row) return null;
+    database.prepare(`UPDATE measure_jobs SET status = 'running', started_at = ? WHERE id = ?`)
+      .run(new Date().toISOString(), row.id);
+    return findMeasureJob(row.id);
+  })();
+}
+
+// モニター側: 定期計測も実行中ジョブとして記録し、その間の手動要求を合流させる
+export function beginMeasureJob(manual: boolean): MeasureJob {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  getDb().prepare(`
+    INSERT INTO measure_jobs (id, status, manual, requested_at, started_at) VALUES (?, 'running', ?, ?, ?)
+  `).run(id, manual ? 1 : 0, now, now);
+  return findMeasureJob(id)!;
+}
+
+// 直近の定期計測の開始時刻（固定間隔の予定表示に使う）
+export function lastScheduledRunAt(): string | null {
+  const row = getDb().prepare(`
+    SELECT MAX(started_at) AS startedAt FROM measure_jobs WHERE manual = 0
+  `).get() as { startedAt: string | null };
+  return row.startedAt;
+}
+
+export function finishMeasureJob(id: string, outcome: { result?: SpeedResult; error?: string }): MeasureJob | null {
+  const database = getDb();
+  database.prepare(`
+    UPDATE measure_jobs SET status = ?, finished_at = ?, result = ?, error = ? WHERE id = ?
+  `).run(
+    outcome.result ? 'completed' : 'failed',
+    new Date().toISOString(),
+    outcome.result ? JSON.stringify(outcome.result) : null,
+    outcome.error ?? null,
+    id
+  );
+  database.prepare('DELETE FROM measure_jobs WHERE finished_at < ?')
+    .run(new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+  return findMeasureJob(id);
+}
+
+export function addDataUsage(day: string, bytes: number) {
+  getDb().prepare(`
+    INSERT INTO data_usage (day, bytes) VALUES (?, ?)
+    ON CONFLICT (day) DO UPDATE SET bytes = bytes + excluded.bytes
+  `).run(day, bytes);
+}
+
+// 指定日（YYYY-MM-DD）以降の通信量の合計
+export function dataUsageSince(day: string): number {
+  const row = getDb().prepare('SELECT SUM(bytes) AS bytes FROM data_usage WHERE day >= ?').get(day) as { bytes: number | null };
+  return row.bytes ?? 0;
+}
+
+// 直近の計測1回あたりの通信量の平均（記録がなければ null）
+export function averageMeasurementBytes(method: string, samples: number = 20): number | null {
+  const row = getDb().prepare(`
+    SELECT AVG(download_bytes + upload_bytes) AS bytes FROM (
+      SELECT download_bytes, upload_bytes FROM measurements
+      WHERE method = ? AND download_bytes IS NOT NULL AND upload_bytes IS NOT NULL
+      ORDER BY timestamp DESC
+      LIMIT ?
+    )
+  `).get(method, samples) as { bytes: number | null };
+  return row.bytes;
+}
+
+// 計測結果のあるプローブの一覧（このホスト自身は probe が空文字）
+export function queryProbes(): ProbeSummary[] {
+  const rows = getDb().prepare(`
+    SELECT probe, MAX(hostname) AS hostname, MAX(network) AS network, COUNT(*) AS count, MAX(timestamp) AS lastSeen
+    FROM measurements
+    GROUP BY probe
+    ORDER BY probe
+  `).all() as { probe: string; hostname: string | null; network: string | null; count: number; lastSeen: string }[];
+  return rows.map(row => ({
+    ...row,
+    hostname: row.hostname ?? undefined,
+    network: row.network ?? undefined,
+  }));
+}
+
+export function enqueueUpload(result: SpeedResult) {
+  getDb().prepare('INSERT OR REPLACE INTO upload_queue (timestamp, payload) VALUES (?, ?)')
+    .run(result.timestamp, JSON.stringify(result));
+}
+
+export function pendingUploads(limit: number): SpeedResult[] {
+  const rows = getDb().prepare('SELECT payload FROM upload_queue ORDER BY timestamp LIMIT ?').all(limit) as { payload: string }[];
+  return rows.map(row => JSON.parse(row.payload));
+}
+
+export function deleteUploads(timestamps: string[]) {
+  const database = getDb();
+  const remove = database.prepare('DELETE FROM upload_queue WHERE timestamp = ?');
+  database.transaction(() => {
+    for (const timestamp of timestamps) {
+      remove.run(timestamp);
+    }
+  })();
+}
+
+// 指定期間に一部でも重なる出来事（時刻順）
+export function queryAnnotations(query: MeasurementQuery = {}): Annotation[] {
+  const rows = getDb().prepare(`
+    SELECT * FROM annotations
+    WHERE (@from IS NULL OR COALESCE(end_time, timestamp) >= @from)
+      AND (@to IS NULL OR timestamp <= @to)
+    ORDER BY timestamp
+  `).all({ from: query.from ?? null, to: query.to ?? null }) as AnnotationRow[];
+  return rows.map(fromAnnotationRow);
+}
+
+export function findAnnotation(id: string): Annotation | null {
+  const row = getDb().prepare('SELECT * FROM annotations WHERE id = ?').get(id) as AnnotationRow | undefined;
+  return row ? fromAnnotationRow(row) : null;
+}
+
+// 作成・更新（同じIDがあれば置き換える）
+export function saveAnnotation(annotation: Annotation) {
+  getDb().prepare(`
+    INSERT OR REPLACE INTO annotations (id, timestamp, end_time, label, category, author, created_at)
+    VALUES (@id, @timestamp, @endTime, @label, @category, @author, @createdAt)
+  `).run({ ...annotation, endTime: annotation.endTime ?? null, author: annotation.author ?? null });
+}
+
+export function deleteAnnotation(id: string): boolean {
+  return getDb().prepare('DELETE FROM annotations WHERE id = ?').run(id).changes > 0;
+}
@@ -0,0 +1,246 @@
+import { MEASUREMENT_METHODS, type SpeedResult } from './providers';
+import { parseOoklaResult } from './providers/ookla';
+import type { AnnotatedResult } from './annotations';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'ndjson'] as const;
+export const IMPORT_FORMATS = [...EXPORT_FORMATS, 'speedtest'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export interface ImportError {
+  // 1始まりの行（CSVはヘッダーを除く）・要素番号
+  row: number;
+  error: string;
+}
+
+export interface ParsedImport {
+  records: SpeedResult[];
+  errors: ImportError[];
+}
+
+const CSV_COLUMNS = [
+  'timestamp', 'download', 'upload', 'ping', 'jitter', 'server', 'isp', 'method', 'manual', 'downloadBytes', 'uploadBytes',
+  'packetLoss', 'downloadLatency', 'uploadLatency', 'serverId', 'serverHost', 'serverLocation',
+  'externalIp', 'internalIp', 'interfaceName', 'isVpn', 'resultUrl', 'probe', 'hostname', 'network', 'annotations',
+] as const;
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+function escapeCsv(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Excelで文字化けしないようBOM付き・CRLF区切りで出力（出来事のラベルは " / " でつなぐ。インポート時は無視する）
+export function serialize(records: AnnotatedResult[], format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return '\uFEFF' + [
+        CSV_COLUMNS.join(','),
+        ...records.map(r => CSV_COLUMNS.map(column => escapeCsv(column === 'annotations' ? r.annotations?.join(' / ') : r[column])).join(',')),
+      ].join('\r\n') + '\r\n';
+    case 'json':
+      return JSON.stringify(records, null, 2);
+    case 'ndjson':
+      return records.map(r => JSON.stringify(r)).join('\n') + '\n';
+  }
+}
+
+// ダブルクォート内のカンマ・改行に対応したCSVの行分割
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+}
+
+// SpeedData の形に合っているか検証し、正規化したレコードを返す
+export function validateRecord(value: any): SpeedResult | string {
+  if (typeof value !== 'object' || value === null) {
+    return 'Record must be an object';
+  }
+
+  const date = new Date(value.timestamp);
+  if (typeof value.timestamp !== 'string' || isNaN(date.getTime())) {
+    return 'Invalid timestamp';
+  }
+
+  const record: SpeedResult = {
+    timestamp: date.toISOString(),
+    download: 0,
+    upload: 0,
+    ping: 0,
+    jitter: 0,
+    method: 'ookla',
+  };
+  for (const key of ['download', 'upload', 'ping', 'jitter'] as const) {
+    const number = typeof value[key] === 'string' ? Number(value[key]) : value[key];
+    if (typeof number !== 'number' || !isFinite(number) || number < 0) {
+      return `Invalid ${key}`;
+    }
+    record[key] = number;
+  }
+
+  for (const key of [
+    'server', 'isp', 'serverHost', 'serverLocation', 'externalIp', 'internalIp', 'interfaceName', 'resultUrl',
+    'probe', 'hostname', 'network',
+  ] as const) {
+    if (value[key] !== undefined && value[key] !== null && value[key] !== '') {
+      if (typeof value[key] !== 'string') return `Invalid ${key}`;
+      record[key] = value[key];
+    }
+  }
+  // ダッシュボードでリンクにするため、javascript: などは受け付けない
+  if (record.resultUrl !== undefined && !/^https?:\/\//i.test(record.resultUrl)) {
+    return 'Invalid resultUrl (must be http or https)';
+  }
+
+  if (value.method !== undefined && value.method !== '') {
+    if (!(MEASUREMENT_METHODS as readonly string[]).includes(value.method)) {
+      return `Invalid method: ${value.method}`;
+    }
+    record.method = value.method;
+  }
+
+  if (value.manual === true || value.manual === 'true') {
+    record.manual = true;
+  }
+
+  for (const key of ['packetLoss', 'downloadLatency', 'uploadLatency'] as const) {
+    if (value[key] !== undefined && value[key] !== null && value[key] !== '') {
+      const number = Number(value[key]);
+      if (!isFinite(number) || number < 0) return `Invalid ${key}`;
+      record[key] = number;
+    }
+  }
+
+  if (value.serverId !== undefined && value.serverId !== null && value.serverId !== '') {
+    const number = Number(value.serverId);
+    if (!Number.isInteger(number)) return 'Invalid serverId';
+    record.serverId = number;
+  }
+
+  if (value.isVpn !== undefined && value.isVpn !== null && value.isVpn !== '') {
+    if (value.isVpn !== true && value.isVpn !== false && value.isVpn !== 'true' && value.isVpn !== 'false') {
+      return 'Invalid isVpn';
+    }
+    record.isVpn = value.isVpn === true || value.isVpn === 'true';
+  }
+
+  for (const key of ['downloadBytes', 'uploadBytes'] as const) {
+    if (value[key] !== undefined && value[key] !== null && value[key] !== '') {
+      const number = Number(value[key]);
+      if (!Number.isInteger(number) || number < 0) return `Invalid ${key}`;
+      record[key] = number;
+    }
+  }
+
+  return record;
+}
+
+// `speedtest --format=json` の結果（type: "result"）を変換
+function fromSpeedtest(value: any): SpeedResult | string {
+  if (value?.type !== undefined && value.type !== 'result') {
+    return `Unsupported speedtest output type: ${value.type}`;
+  }
+  try {
+    return validateRecord({
+      timestamp: value.timestamp,
+      ...parseOoklaResult(value),
+      method: 'ookla',
+    });
+  } catch {
+    return 'Invalid speedtest result';
+  }
+}
+
+function parseJsonValues(text: string, format: ImportFormat): unknown[] {
+  if (format === 'ndjson') {
+    return text.split(/\r?\n/).filter(line => line.trim() !== '').map(line => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        return undefined;
+      }
+    });
+  }
+  const parsed = JSON.parse(text);
+  return Array.isArray(parsed) ? parsed : [parsed];
+}
+
+export function parseImport(text: string, format: ImportFormat): ParsedImport {
+  const records: SpeedResult[] = [];
+  const errors: ImportError[] = [];
+  const collect = (result: SpeedResult | string, row: number) => {
+    if (typeof result === 'string') {
+      errors.push({ row, error: result });
+    } else {
+      records.push(result);
+    }
+  };
+
+  if (format === 'csv') {
+    const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+    if (!header) return { records, errors };
+    const columns = header.map(h => h.trim());
+    rows.forEach((fields, index) => {
+      const value = Object.fromEntries(columns.map((column, i) => [column, fields[i]?.trim()]));
+      collect(validateRecord(value), index + 1);
+    });
+    return { records, errors };
+  }
+
+  let values: unknown[];
+  try {
+    values = parseJsonValues(text, format);
+  } catch (error) {
+    // speedtest の出力は複数回分を1行ずつ連結した形式も受け付ける
+    if (format !== 'speedtest') throw error;
+    values = parseJsonValues(text, 'ndjson');
+  }
+  values.forEach((value, index) => {
+    if (value === undefined) {
+      errors.push({ row: index + 1, error: 'Invalid JSON' });
+    } else {
+      collect(format === 'speedtest' ? fromSpeedtest(value) : validateRecord(value), index + 1);
+    }
+  });
+  return { records, errors };
+}
@@ -0,0 +1,180 @@
+// APIサーバー（monitor/）とダッシュボード（src/）で共通の統計計算
+// 平均だけでは外れ値に引きずられるため、中央値・パーセンタイル・ばらつきをまとめて求める
+
+export interface Distribution {
+  count: number;
+  mean: number;
+  stddev: number;
+  min: number;
+  p5: number;
+  // 箱ひげ図の箱（第1・第3四分位）
+  p25: number;
+  median: number;
+  p75: number;
+  p95: number;
+  max: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+  percent: number;
+}
+
+export interface CdfPoint {
+  value: number;
+  // value 以下の計測の割合（%）
+  percent: number;
+}
+
+// 2つの期間の比較（after − before）
+export interface PeriodComparison {
+  // 中央値の差と変化率（before の中央値が0なら null）
+  delta: number;
+  deltaPercent: number | null;
+  // 順位和検定（Mann-Whitney U、正規近似）の両側p値。どちらかの件数が少なすぎれば null
+  pValue: number | null;
+  // p値が有意水準を下回ったか（偶然の揺らぎとは言いにくい差か）
+  significant: boolean;
+}
+
+// CDFのグラフ用に間引くときの最大点数
+const MAX_CDF_POINTS = 200;
+// 検定に必要な各期間の最低件数
+const MIN_COMPARE_SAMPLES = 5;
+
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ソート済み配列に対する線形補間のパーセンタイル
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p / 100;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+// 母標準偏差
+export function stddev(values: number[]): number {
+  if (values.length === 0) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - average) ** 2, 0) / values.length);
+}
+
+export function describe(values: number[]): Distribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: values.length,
+    mean: round2(mean(values)),
+    stddev: round2(stddev(values)),
+    min: sorted[0] ?? 0,
+    p5: round2(percentile(sorted, 5)),
+    p25: round2(percentile(sorted, 25)),
+    median: round2(percentile(sorted, 50)),
+    p75: round2(percentile(sorted, 75)),
+    p95: round2(percentile(sorted, 95)),
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+}
+
+// threshold を下回った計測の割合（%）。計測間隔が一定なら「時間の割合」とみなせる
+export function percentBelow(values: number[], threshold: number): number {
+  if (values.length === 0) return 0;
+  return round2(values.filter(v => v < threshold).length / values.length * 100);
+}
+
+// 最小値〜最大値を binCount 等分したヒストグラム
+export function histogram(values: number[], binCount: number = 20): HistogramBin[] {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = (max - min) / binCount || 1;
+
+  const bins: HistogramBin[] = [];
+  for (let i = 0; i < binCount; i++) {
+    bins.push({ start: round2(min + width * i), end: round2(min + width * (i + 1)), count: 0, percent: 0 });
+  }
+  for (const value of values) {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+  }
+  for (const bin of bins) {
+    bin.percent = round2(bin.count / values.length * 100);
+  }
+  return bins;
+}
+
+// 累積分布。点数が多い場合は等間隔に間引く（最後の点は必ず含める）
+export function cdf(values: number[]): CdfPoint[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const step = Math.max(1, Math.ceil(sorted.length / MAX_CDF_POINTS));
+  const points: CdfPoint[] = [];
+  for (let i = 0; i < sorted.length; i += step) {
+    points.push({ value: sorted[i], percent: round2((i + 1) / sorted.length * 100) });
+  }
+  if (sorted.length > 0 && (sorted.length - 1) % step !== 0) {
+    points.push({ value: sorted[sorted.length - 1], percent: 100 });
+  }
+  return points;
+}
+
+// 標準正規分布の累積分布関数（Abramowitz-Stegun 7.1.26 による erf の近似）
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// 同順位を平均順位にした Mann-Whitney U 検定の両側p値
+function rankSumPValue(before: number[], after: number[]): number {
+  const combined = [
+    ...before.map(value => ({ value, after: false })),
+    ...after.map(value => ({ value, after: true })),
+  ].sort((a, b) => a.value - b.value);
+  const n = combined.length;
+
+  let afterRankSum = 0;
+  let tieCorrection = 0;
+  for (let i = 0; i < n;) {
+    let j = i;
+    while (j + 1 < n && combined[j + 1].value === combined[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      if (combined[k].after) afterRankSum += rank;
+    }
+    const ties = j - i + 1;
+    tieCorrection += ties ** 3 - ties;
+    i = j + 1;
+  }
+
+  const n1 = before.length;
+  const n2 = after.length;
+  const u = afterRankSum - n2 * (n2 + 1) / 2;
+  const variance = n1 * n2 / 12 * ((n + 1) - tieCorrection / (n * (n - 1)));
+  if (variance <= 0) return 1;
+  // 連続性補正
+  const z = (Math.abs(u - n1 * n2 / 2) - 0.5) / Math.sqrt(variance);
+  return Math.min(1, 2 * (1 - normalCdf(Math.max(0, z))));
+}
+
+// 中央値の差と、その差が偶然の揺らぎで説明できるかを調べる
+export function compare(before: number[], after: number[], alpha: number = 0.05): PeriodComparison {
+  const beforeMedian = percentile([...before].sort((a, b) => a - b), 50);
+  const afterMedian = percentile([...after].sort((a, b) => a - b), 50);
+  const pValue = before.length >= MIN_COMPARE_SAMPLES && after.length >= MIN_COMPARE_SAMPLES
+    ? rankSumPValue(before, after)
+    : null;
+  return {
+    delta: round2(afterMedian - beforeMedian),
+    deltaPercent: beforeMedian !== 0 ? round2((afterMedian - beforeMedian) / beforeMedian * 100) : null,
+    pValue: pValue === null ? null : Math.round(pValue * 10000) / 10000,
+    significant: pValue !== null && pValue < alpha,
+  };
+}
@@ -0,0 +1,48 @@
+export interface TimeSlot {
+  name: string;
+  start: number;
+  end: number;
+}
+
+// 時間帯別テーブル・SLAレポート・異常検知で使う既定の区切り（ローカル時刻の時）
+// config.json の timeSlots で変更できる
+export const TIME_SLOTS: TimeSlot[] = [
+  { name: '深夜 (00:00-03:00)', start: 0, end: 3 },
+  { name: '早朝 (03:00-06:00)', start: 3, end: 6 },
+  { name: '朝 (06:00-12:00)', start: 6, end: 12 },
+  { name: '昼 (12:00-16:00)', start: 12, end: 16 },
+  { name: '夕方 (16:00-20:00)', start: 16, end: 20 },
+  { name: '夜 (20:00-24:00)', start: 20, end: 24 },
+];
+
+// 0時から24時まで隙間なく並んだ区切りか検証する（不正ならエラーメッセージを返す）
+export function parseTimeSlots(value: unknown): TimeSlot[] | string {
+  if (!Array.isArray(value) || value.length === 0) {
+    return 'Invalid timeSlots (must be a non-empty array)';
+  }
+
+  const slots: TimeSlot[] = [];
+  for (let index = 0; index < value.length; index++) {
+    const item = value[index];
+    const label = `timeSlots[${index}]`;
+    if (typeof item !== 'object' || item === null || typeof item.name !== 'string' || item.name.trim() === '') {
+      return `Invalid ${label}.name`;
+    }
+    if (!Number.isInteger(item.start) || !Number.isInteger(item.end) || item.start < 0 || item.end > 24 || item.start >= item.end) {
+      return `Invalid ${label} start/end (must be hours 0-24, start < end)`;
+    }
+    const expectedStart = index === 0 ? 0 : slots[index - 1].end;
+    if (item.start !== expectedStart) {
+      return `Invalid ${label}.start (must be ${expectedStart}; slots must cover 0-24 without gaps)`;
+    }
+    slots.push({ name: item.name.trim(), start: item.start, end: item.end });
+  }
+  if (slots[slots.length - 1].end !== 24) {
+    return 'Invalid timeSlots (the last slot must end at 24)';
+  }
+  return slots;
+}
+
+export function slotForHour(hour: number, slots: TimeSlot[] = TIME_SLOTS): TimeSlot | undefined {
+  return slots.find(slot => hour >= slot.start && hour < slot.end);
+}
@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import type { AlertEvent } from '../types/speed';
+
+const fetchAlertHistory = async (): Promise<AlertEvent[]> => {
+  const response = await fetch('http://localhost:3001/api/alerts/history?limit=10');
+  if (!response.ok) throw new Error('Failed to fetch alert history');
+  return response.json();
+};
+
+// 直近のアラートの発火・回復
+export default function AlertHistory({ refetchInterval }: { refetchInterval: number | false }) {
+  const { data: alertHistory = [] } = useQuery({
+    queryKey: ['alertHistory'],
+    queryFn: fetchAlertHistory,
+    refetchInterval,
+  });
+
+  if (alertHistory.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <h2 className="text-xl font-bold text-slate-800 mb-4">🔔 アラート履歴</h2>
+      <ul className="divide-y divide-slate-100 text-sm">
+        {alertHistory.map((event, index) => (
+          <li key={index} className="py-2 flex justify-between gap-4">
+            <span className={event.state === 'fired' ? 'text-red-600' : 'text-green-600'}>
+              {event.message}
+            </span>
+            <span className="text-slate-500 whitespace-nowrap">
+              {new Date(event.timestamp).toLocaleString('ja-JP')}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Annotation, AnnotationCategory } from '../types/speed';
+
+// 出来事の種類ごとの表示名とグラフ上の色
+export const ANNOTATION_CATEGORIES: Record<AnnotationCategory, { label: string; color: string }> = {
+  equipment: { label: '機器の交換', color: '#0891b2' },
+  reboot: { label: '再起動', color: '#7c3aed' },
+  isp: { label: 'ISP・工事', color: '#db2777' },
+  config: { label: '設定変更', color: '#65a30d' },
+  other: { label: 'その他', color: '#64748b' },
+};
+
+// 新規作成のときは timestamp だけが入っている
+export type AnnotationDraft = Partial<Annotation> & { timestamp: string };
+
+interface AnnotationFormProps {
+  annotation: AnnotationDraft;
+  onClose: () => void;
+}
+
+type AnnotationInput = Pick<Annotation, 'timestamp' | 'label' | 'category'> & { endTime: string | null; author?: string };
+
+const saveAnnotation = async ({ id, input }: { id?: string; input: AnnotationInput }): Promise<Annotation> => {
+  const response = await fetch(`http://localhost:3001/api/annotations${id ? `/${id}` : ''}`, {
+    method: id ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) throw new Error((await response.json()).error ?? 'Failed to save annotation');
+  return response.json();
+};
+
+const deleteAnnotation = async (id: string): Promise<void> => {
+  const response = await fetch(`http://localhost:3001/api/annotations/${id}`, { method: 'DELETE' });
+  if (!response.ok) throw new Error('Failed to delete annotation');
+};
+
+// <input type="datetime-local"> はローカル時刻の "YYYY-MM-DDTHH:mm" で扱う
+const toLocalInput = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// グラフのクリックや一覧から開く、出来事の記録・編集フォーム
+export default function AnnotationForm({ annotation, onClose }: AnnotationFormProps) {
+  const queryClient = useQueryClient();
+  const [start, setStart] = useState(toLocalInput(annotation.timestamp));
+  const [end, setEnd] = useState(annotation.endTime ? toLocalInput(annotation.endTime) : '');
+  const [label, setLabel] = useState(annotation.label ?? '');
+  const [category, setCategory] = useState<AnnotationCategory>(annotation.category ?? 'equipment');
+  const [author, setAuthor] = useState(annotation.author ?? '');
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['annotations'] });
+    queryClient.invalidateQueries({ queryKey: ['slaReport'] });
+    onClose();
+  };
+  const saveMutation = useMutation({ mutationFn: saveAnnotation, onSuccess });
+  const deleteMutation = useMutation({ mutationFn: deleteAnnotation, onSuccess });
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      id: annotation.id,
+      input: {
+        timestamp: new Date(start).toISOString(),
+        endTime: end ? new Date(end).toISOString() : null,
+        label,
+        category,
+        author: author || undefined,
+      },
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-xl font-bold text-slate-800 mb-4">{annotation.id ? '出来事の編集' : '出来事を記録'}</h3>
+        <div className="space-y-3 text-sm">
+          <label className="block">
+            <span className="block font-medium text-slate-700 mb-1">内容</span>
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="例: ルーターを交換"
+              maxLength={200}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <label className="block">
+            <span className="block font-medium text-slate-700 mb-1">種類</span>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as AnnotationCategory)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+            >
+              {(Object.keys(ANNOTATION_CATEGORIES) as AnnotationCategory[]).map(key => (
+                <option key={key} value={key}>{ANNOTATION_CATEGORIES[key].label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex items-end gap-2">
+            <label className="block flex-1">
+              <span className="block font-medium text-slate-700 mb-1">日時</span>
+              <input
+                type="datetime-local"
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+              />
+            </label>
+            <span className="pb-2 text-slate-600">〜</span>
+            <label className="block flex-1">
+              <span className="block font-medium text-slate-700 mb-1">終了（任意）</span>
+              <input
+                type="datetime-local"
+                value={end}
+                onChange={(e) => setEnd(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+              />
+            </label>
+          </div>
+          <label className="block">
+            <span className="block font-medium text-slate-700 mb-1">記録者（任意）</span>
+            <input
+              type="text"
+              value={author}
+              onChange={(e) => setAuthor(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        </div>
+        <div className="flex gap-3 mt-6">
+          {annotation.id && (
+            <button
+              onClick={() => deleteMutation.mutate(annotation.id!)}
+              disabled={deleteMutation.isPending}
+              className="px-4 py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition disabled:opacity-50"
+            >
+              削除
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 transition"
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saveMutation.isPending || label.trim() === '' || start === ''}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {saveMutation.isPending ? '保存中...' : '保存'}
+          </button>
+        </div>
+        {(saveMutation.isError || deleteMutation.isError) && (
+          <p className="text-red-600 text-sm mt-3">保存できませんでした: {(saveMutation.error ?? deleteMutation.error)?.message}</p>
+        )}
+      </div>
+    </div>
+  );
+}
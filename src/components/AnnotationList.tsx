@@ -0,0 +1,44 @@
+import { ANNOTATION_CATEGORIES } from './AnnotationForm';
+import type { Annotation } from '../types/speed';
+
+interface AnnotationListProps {
+  annotations: Annotation[];
+  // クリックした出来事を編集フォームで開く
+  onSelect: (annotation: Annotation) => void;
+}
+
+// 表示期間の出来事の一覧
+export default function AnnotationList({ annotations, onSelect }: AnnotationListProps) {
+  if (annotations.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <h2 className="text-xl font-bold text-slate-800 mb-4">📝 出来事（{annotations.length}件）</h2>
+      <ul className="divide-y divide-slate-100 text-sm">
+        {annotations.map(annotation => (
+          <li key={annotation.id}>
+            <button
+              onClick={() => onSelect(annotation)}
+              className="w-full py-2 flex items-center gap-3 text-left hover:bg-slate-50"
+            >
+              <span
+                className="px-2 py-0.5 rounded text-xs text-white whitespace-nowrap"
+                style={{ backgroundColor: ANNOTATION_CATEGORIES[annotation.category].color }}
+              >
+                {ANNOTATION_CATEGORIES[annotation.category].label}
+              </span>
+              <span className="flex-1 text-slate-700">
+                {annotation.label}
+                {annotation.author && <span className="ml-2 text-xs text-slate-500">（{annotation.author}）</span>}
+              </span>
+              <span className="text-slate-500 whitespace-nowrap">
+                {new Date(annotation.timestamp).toLocaleString('ja-JP')}
+                {annotation.endTime && ` 〜 ${new Date(annotation.endTime).toLocaleString('ja-JP')}`}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import type { AnomalyReport } from '../types/speed';
+
+// 通常値から大きく悪化した直近の計測（グラフ上の ● と対応）
+export default function AnomalyList({ report }: { report: AnomalyReport }) {
+  if (report.anomalies.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <h2 className="text-xl font-bold text-slate-800 mb-1">⚠️ いつもと違う計測（{report.anomalies.length}件）</h2>
+      <p className="text-xs text-slate-500 mb-3">
+        過去{report.options.lookbackDays}日間の同じ曜日・時間帯と比べて{report.options.thresholdPercent}%以上悪化した計測です。グラフ上では ● で表示します
+      </p>
+      <ul className="divide-y divide-slate-100 text-sm">
+        {report.anomalies.slice(-5).reverse().map(anomaly => (
+          <li key={`${anomaly.metric}-${anomaly.timestamp}`} className="py-2 flex justify-between gap-4">
+            <span className="text-amber-700">{anomaly.message}</span>
+            <span className="text-slate-500 whitespace-nowrap">
+              {new Date(anomaly.timestamp).toLocaleString('ja-JP')}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
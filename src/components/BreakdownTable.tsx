@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import type { BreakdownDimension, BreakdownGroup, MetricSpread, OoklaOptions } from '../types/speed';
+
+interface BreakdownTableProps {
+  from?: string;
+  to?: string;
+  probe?: string;
+  ookla?: OoklaOptions;
+  refetchInterval: number | false;
+}
+
+const DIMENSION_LABELS: Record<BreakdownDimension, string> = {
+  server: 'サーバー別',
+  isp: 'ISP別',
+};
+
+interface BreakdownResult {
+  groups: BreakdownGroup[];
+  // 集計済みのためサーバー・ISPが分からず、含められなかった計測の件数
+  rolledUpSamples: number;
+}
+
+const fetchBreakdown = async (dimension: BreakdownDimension, params: Record<string, string | undefined>): Promise<BreakdownResult> => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, value);
+  }
+  const response = await fetch(`http://localhost:3001/api/stats/by-${dimension}?${query}`);
+  if (!response.ok) throw new Error('Failed to fetch breakdown');
+  return {
+    groups: await response.json(),
+    rolledUpSamples: Number(response.headers.get('X-Rolled-Up-Samples') ?? 0),
+  };
+};
+
+const updateOokla = async (ookla: OoklaOptions): Promise<void> => {
+  const response = await fetch('http://localhost:3001/api/config', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ookla }),
+  });
+  if (!response.ok) throw new Error('Failed to update config');
+};
+
+// 平均と p10〜p90 の幅
+const SpreadCell = ({ value, className }: { value: MetricSpread; className: string }) => (
+  <td className={`py-3 px-4 text-right ${className}`}>
+    <div className="font-semibold">{value.avg}</div>
+    <div className="text-xs text-slate-500">{value.p10} 〜 {value.p90}</div>
+  </td>
+);
+
+// 計測サーバー・ISPごとの速度の違い。サーバー別ではOoklaの計測サーバーを固定・除外できる
+export default function BreakdownTable({ from, to, probe, ookla, refetchInterval }: BreakdownTableProps) {
+  const [dimension, setDimension] = useState<BreakdownDimension>('server');
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['breakdown', dimension, from, to, probe],
+    queryFn: () => fetchBreakdown(dimension, { from, to, probe }),
+    refetchInterval,
+    placeholderData: keepPreviousData,
+  });
+
+  const groups = data?.groups ?? [];
+
+  const ooklaMutation = useMutation({
+    mutationFn: updateOokla,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['config'] }),
+  });
+
+  const excluded = ookla?.excludeServerIds ?? [];
+  const togglePin = (serverId: number) => {
+    ooklaMutation.mutate({ serverId: ookla?.serverId === serverId ? null : serverId });
+  };
+  const toggleExclude = (serverId: number) => {
+    ooklaMutation.mutate({
+      excludeServerIds: excluded.includes(serverId) ? excluded.filter(id => id !== serverId) : [...excluded, serverId],
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-slate-800">🌐 サーバー・ISP別の速度</h2>
+        <div className="flex gap-1">
+          {(Object.keys(DIMENSION_LABELS) as BreakdownDimension[]).map(d => (
+            <button
+              key={d}
+              onClick={() => setDimension(d)}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition ${
+                dimension === d ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+              }`}
+            >
+              {DIMENSION_LABELS[d]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 -mt-2 mb-3">
+        上段が平均、下段が p10 〜 p90 の範囲です
+        {data && data.rolledUpSamples > 0 && `（保持期間を過ぎて集計済みの${data.rolledUpSamples}件はサーバー・ISPが分からないため含みません）`}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b-2 border-slate-200">
+              <th className="text-left py-3 px-4 font-semibold text-slate-700">{dimension === 'server' ? 'サーバー' : 'ISP'}</th>
+              <th className="text-right py-3 px-4 font-semibold text-blue-600">下り (Mbps)</th>
+              <th className="text-right py-3 px-4 font-semibold text-green-600">上り (Mbps)</th>
+              <th className="text-right py-3 px-4 font-semibold text-orange-600">Ping (ms)</th>
+              <th className="text-right py-3 px-4 font-semibold text-slate-600">測定回数</th>
+              {dimension === 'server' && <th className="py-3 px-4"></th>}
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map(group => (
+              <tr key={group.key ?? ''} className="border-b border-slate-100 hover:bg-slate-50">
+                <td className="py-3 px-4 text-slate-700">
+                  <div className="font-medium">{group.key ?? '不明'}</div>
+                  {group.serverLocation && <div className="text-xs text-slate-500">{group.serverLocation}（ID {group.serverId}）</div>}
+                </td>
+                <SpreadCell value={group.download} className="text-blue-600" />
+                <SpreadCell value={group.upload} className="text-green-600" />
+                <SpreadCell value={group.ping} className="text-orange-600" />
+                <td className="py-3 px-4 text-right text-slate-600">{group.count}</td>
+                {dimension === 'server' && (
+                  <td className="py-3 px-4 text-right whitespace-nowrap">
+                    {group.serverId !== undefined && (
+                      <>
+                        <button
+                          onClick={() => togglePin(group.serverId!)}
+                          disabled={ooklaMutation.isPending}
+                          className={`px-2 py-1 rounded text-xs mr-1 ${
+                            ookla?.serverId === group.serverId ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                          }`}
+                        >
+                          📌 固定
+                        </button>
+                        <button
+                          onClick={() => toggleExclude(group.serverId!)}
+                          disabled={ooklaMutation.isPending}
+                          className={`px-2 py-1 rounded text-xs ${
+                            excluded.includes(group.serverId) ? 'bg-red-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                          }`}
+                        >
+                          🚫 除外
+                        </button>
+                      </>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+            {groups.length === 0 && (
+              <tr>
+                <td colSpan={dimension === 'server' ? 6 : 5} className="py-6 text-center text-slate-500">データがありません</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useQuery } from '@tanstack/react-query';
+import { METHOD_LABELS } from './Settings';
+import type { BudgetStatus } from '../types/speed';
+
+// 通信量の上限が未設定（404）の場合は null
+const fetchBudget = async (): Promise<BudgetStatus | null> => {
+  const response = await fetch('http://localhost:3001/api/budget');
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error('Failed to fetch data budget');
+  return response.json();
+};
+
+const formatMB = (bytes: number): string => `${Math.round(bytes / 1000000).toLocaleString('ja-JP')}MB`;
+
+// 今期の通信量と節約モード・停止の状態（上限が未設定なら表示しない）
+export default function BudgetCard({ refetchInterval }: { refetchInterval: number | false }) {
+  const { data: budget } = useQuery({
+    queryKey: ['budget'],
+    queryFn: fetchBudget,
+    refetchInterval,
+  });
+
+  if (!budget) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-8 text-sm">
+      <div className="flex flex-wrap gap-6 items-center mb-2">
+        <span className="font-semibold text-slate-700">📶 通信量（{budget.budget.period === 'day' ? '今日' : '今月'}）</span>
+        <span className="text-slate-600">
+          使用: <span className="font-bold text-slate-800">{formatMB(budget.usedBytes)}</span> / {formatMB(budget.limitBytes)}
+        </span>
+        <span className="text-slate-600">
+          残り: <span className="font-bold text-slate-800">{formatMB(budget.remainingBytes)}</span>
+        </span>
+        <span className="text-slate-600">1回あたり約{formatMB(budget.bytesPerRun)}</span>
+        {budget.state === 'throttled' && (
+          <span className="text-orange-600 font-semibold">
+            節約モード{budget.minIntervalMinutes ? `（最短${budget.minIntervalMinutes}分間隔）` : `（${METHOD_LABELS[budget.method]}）`}
+          </span>
+        )}
+        {budget.state === 'exhausted' && (
+          <span className="text-red-600 font-semibold">
+            上限に達したため {new Date(budget.periodEnd).toLocaleString('ja-JP')} まで定期計測を停止中
+          </span>
+        )}
+      </div>
+      <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${budget.state === 'ok' ? 'bg-blue-600' : budget.state === 'throttled' ? 'bg-orange-500' : 'bg-red-600'}`}
+          style={{ width: `${Math.min(100, budget.usedPercent)}%` }}
+        ></div>
+      </div>
+    </div>
+  );
+}
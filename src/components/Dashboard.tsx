@@ -1,498 +1,439 @@
-import { useState, useMemo } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import type { SpeedData, TimeRange, Config } from '../types/speed';
+import { useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { useServerEvents } from '../hooks/useServerEvents';
+import { useTimeRange, toRangeWindow, toQueryString, withBucket, type RangeWindow } from '../hooks/useTimeRange';
+import TimeRangeSelector from './TimeRangeSelector';
+import BreakdownTable from './BreakdownTable';
+import Heatmap from './Heatmap';
+import AnnotationForm, { type AnnotationDraft } from './AnnotationForm';
+import DistributionChart from './DistributionChart';
+import MeasureControls from './MeasureControls';
+import StatCards from './StatCards';
+import OutageStatus from './OutageStatus';
+import BudgetCard from './BudgetCard';
+import AnomalyList from './AnomalyList';
+import AnnotationList from './AnnotationList';
+import AlertHistory from './AlertHistory';
+import PeakStats from './PeakStats';
+import TimeSlotStats from './TimeSlotStats';
+import DataTransfer from './DataTransfer';
+import SpeedCharts, { pointOfMeasurement, pointOfBucket, type ChartPoint, type CompareSeries } from './SpeedCharts';
+import ProbeCharts, { probeLabel } from './ProbeCharts';
+import HeartbeatStrip from './HeartbeatStrip';
+import type { SpeedData, SpeedBucket, Config, OutageReport, ProbeSummary, AnomalyReport, CompareMode, Annotation, RangeSummary, RangeComparison } from '../types/speed';
+
+const fetchSpeedData = async (range: RangeWindow, probe?: string): Promise<SpeedData[]> => {
+  const query = toQueryString({ from: range.from, to: range.to, probe });
+  const response = await fetch(`http://localhost:3001/api/speed-data?${query}`);
+  if (!response.ok) throw new Error('Failed to fetch data');
+  return response.json();
+};
 
-const fetchSpeedData = async (): Promise<SpeedData[]> => {
-  const response = await fetch('http://localhost:3001/api/speed-data');
+const fetchSpeedBuckets = async (range: RangeWindow, probe?: string): Promise<SpeedBucket[]> => {
+  const response = await fetch(`http://localhost:3001/api/speed-data?${toQueryString({ ...range, probe })}`);
   if (!response.ok) throw new Error('Failed to fetch data');
   return response.json();
 };
 
+// 統計はサーバー側で集計する（長期間でも生データをすべて取得しない）
+const fetchSummary = async (range: RangeWindow, probe: string | undefined, belowMbps: number, includeManual: boolean): Promise<RangeSummary> => {
+  const query = toQueryString({
+    from: range.from,
+    to: range.to,
+    probe,
+    belowMbps: String(belowMbps),
+    manual: includeManual ? 'include' : 'exclude',
+  });
+  const response = await fetch(`http://localhost:3001/api/stats/summary?${query}`);
+  if (!response.ok) throw new Error('Failed to fetch summary');
+  return response.json();
+};
+
+// 期間の長さに応じて生データか集計済みバケットを取得する
+const fetchSeries = async (range: RangeWindow, probe?: string): Promise<ChartPoint[]> => range.bucket === undefined
+  ? (await fetchSpeedData(range, probe)).map(pointOfMeasurement)
+  : (await fetchSpeedBuckets(range, probe)).map(pointOfBucket);
+
+// 比較モードで並べる2つの期間（before → after）
+interface ComparePeriod {
+  label: string;
+  range: RangeWindow;
+}
+
+// range: 指定した日付の期間 → 表示期間、split: 表示期間を日付の前後に分ける
+const comparePeriodsOf = (
+  range: RangeWindow,
+  mode: CompareMode,
+  startDate: string,
+  endDate: string,
+  splitDate: string,
+): [ComparePeriod, ComparePeriod] | null => {
+  if (mode === 'range' && startDate && endDate) {
+    return [
+      {
+        label: '比較期間',
+        range: withBucket({ from: new Date(`${startDate}T00:00`).toISOString(), to: new Date(`${endDate}T23:59:59.999`).toISOString() }),
+      },
+      { label: '表示期間', range },
+    ];
+  }
+  if (mode === 'split' && splitDate) {
+    const split = new Date(`${splitDate}T00:00`).getTime();
+    return [
+      { label: '前', range: withBucket({ from: range.from, to: new Date(split - 1).toISOString() }) },
+      { label: '後', range: withBucket({ from: new Date(split).toISOString(), to: range.to }) },
+    ];
+  }
+  return null;
+};
+
+interface CompareResult {
+  comparison: RangeComparison;
+  series: CompareSeries[];
+}
+
+// 中央値の差の検定はサーバー側で行い、グラフ用の系列は期間ごとに取得する
+const fetchComparison = async (periods: [ComparePeriod, ComparePeriod], probe: string | undefined, includeManual: boolean): Promise<CompareResult> => {
+  const [before, after] = periods.map(period => period.range);
+  const query = toQueryString({
+    baselineFrom: before.from,
+    baselineTo: before.to,
+    from: after.from,
+    to: after.to,
+    probe,
+    manual: includeManual ? 'include' : 'exclude',
+  });
+  const seriesOf = async (range: RangeWindow): Promise<CompareSeries> => {
+    const points = (await fetchSeries(range, probe)).filter(point => includeManual || !point.manual);
+    return { start: range.from ? new Date(range.from).getTime() : points[0]?.time ?? 0, points };
+  };
+  const [response, beforeSeries, afterSeries] = await Promise.all([
+    fetch(`http://localhost:3001/api/stats/compare?${query}`),
+    seriesOf(before),
+    seriesOf(after),
+  ]);
+  if (!response.ok) throw new Error('Failed to compare periods');
+  return { comparison: await response.json(), series: [beforeSeries, afterSeries] };
+};
+
+const fetchAnomalies = async (range: RangeWindow, probe?: string): Promise<AnomalyReport> => {
+  const response = await fetch(`http://localhost:3001/api/anomalies?${toQueryString({ from: range.from, to: range.to, probe })}`);
+  if (!response.ok) throw new Error('Failed to fetch anomalies');
+  return response.json();
+};
+
+const fetchAnnotations = async (range: RangeWindow): Promise<Annotation[]> => {
+  const response = await fetch(`http://localhost:3001/api/annotations?${toQueryString({ from: range.from, to: range.to })}`);
+  if (!response.ok) throw new Error('Failed to fetch annotations');
+  return response.json();
+};
+
+const fetchProbes = async (): Promise<ProbeSummary[]> => {
+  const response = await fetch('http://localhost:3001/api/probes');
+  if (!response.ok) throw new Error('Failed to fetch probes');
+  return response.json();
+};
+
 const fetchConfig = async (): Promise<Config> => {
   const response = await fetch('http://localhost:3001/api/config');
   if (!response.ok) throw new Error('Failed to fetch config');
   return response.json();
 };
 
-const updateConfig = async (config: Config): Promise<Config> => {
-  const response = await fetch('http://localhost:3001/api/config', {
-    method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(config),
-  });
-  if (!response.ok) throw new Error('Failed to update config');
+const fetchOutages = async (range: RangeWindow): Promise<OutageReport> => {
+  const query = toQueryString({ from: range.from, to: range.to });
+  const response = await fetch(`http://localhost:3001/api/outages?${query}`);
+  if (!response.ok) throw new Error('Failed to fetch outages');
   return response.json();
 };
 
 export default function Dashboard() {
-  const [timeRange, setTimeRange] = useState<TimeRange>('24h');
-  const [customStartDate, setCustomStartDate] = useState('');
-  const [customEndDate, setCustomEndDate] = useState('');
-  const [intervalInput, setIntervalInput] = useState('');
-  const [showIntervalModal, setShowIntervalModal] = useState(false);
-  const queryClient = useQueryClient();
-
-  // TanStack Queryでデータ取得
-  const { data = [], isLoading, error, dataUpdatedAt } = useQuery({
-    queryKey: ['speedData'],
-    queryFn: fetchSpeedData,
-    refetchInterval: 30000,
-  });
+  const { rangeKey, rangeWindow } = useTimeRange();
+  const [includeManual, setIncludeManual] = useState(false);
+  // 「X Mbps未満の割合」のしきい値（未入力なら契約の最低保証速度）
+  const [belowMbpsInput, setBelowMbpsInput] = useState('');
+  // 表示するプローブ（undefined はすべて）
+  const [selectedProbe, setSelectedProbe] = useState<string | undefined>(undefined);
+  // 比較モード（range: 比較期間の日付、split: 表示期間を分ける日付）
+  const [compareMode, setCompareMode] = useState<CompareMode>('off');
+  const [compareStartDate, setCompareStartDate] = useState('');
+  const [compareEndDate, setCompareEndDate] = useState('');
+  const [splitDate, setSplitDate] = useState('');
+  // 編集中の出来事（一覧のクリック・グラフ上の記録モードから開く）
+  const [annotationDraft, setAnnotationDraft] = useState<AnnotationDraft | null>(null);
+
+  // イベントストリームに接続中は配信で更新し、切断時のみポーリングする
+  const { measuring, connected } = useServerEvents();
+  const pollInterval = connected ? false : 30000;
 
   // 設定取得
   const { data: config } = useQuery({
     queryKey: ['config'],
     queryFn: fetchConfig,
-    refetchInterval: 10000,
+    refetchInterval: pollInterval,
   });
 
-  // 設定更新
-  const mutation = useMutation({
-    mutationFn: updateConfig,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['config'] });
-      setShowIntervalModal(false);
-      setIntervalInput('');
-    },
+  // 基本統計（外れ値に強い中央値とパーセンタイル）。手動計測は任意のタイミングで偏りやすいので既定では除外する
+  const belowMbps = parseFloat(belowMbpsInput) > 0 ? parseFloat(belowMbpsInput) : config?.plan?.minDownloadMbps ?? 100;
+  const { data: summary, isLoading, error, dataUpdatedAt } = useQuery({
+    queryKey: ['speedData', 'summary', ...rangeKey, selectedProbe, belowMbps, includeManual],
+    queryFn: () => fetchSummary(toRangeWindow(...rangeKey), selectedProbe, belowMbps, includeManual),
+    refetchInterval: pollInterval,
+    placeholderData: keepPreviousData,
+  });
+  const manualCount = summary?.manualCount ?? 0;
+  const totalCount = summary ? summary.count + (includeManual ? 0 : manualCount) : 0;
+
+  // グラフ用の生データは短い期間のみ取得し、長期間は集計済みバケットを使う
+  const bucket = rangeWindow.bucket;
+  const { data: filteredData = [] } = useQuery({
+    queryKey: ['speedData', ...rangeKey, selectedProbe],
+    queryFn: () => fetchSpeedData(toRangeWindow(...rangeKey), selectedProbe),
+    enabled: bucket === undefined,
+    refetchInterval: pollInterval,
+    placeholderData: keepPreviousData,
+  });
+  const { data: buckets = [] } = useQuery({
+    queryKey: ['speedBuckets', ...rangeKey, selectedProbe],
+    queryFn: () => fetchSpeedBuckets(toRangeWindow(...rangeKey), selectedProbe),
+    enabled: bucket !== undefined,
+    refetchInterval: pollInterval,
+    placeholderData: keepPreviousData,
   });
 
-  const handleIntervalUpdate = () => {
-    const interval = parseInt(intervalInput);
-    if (interval >= 1 && interval <= 1440) {
-      mutation.mutate({ intervalMinutes: interval });
-    }
-  };
+  // 比較する2つの期間の統計とグラフ（どちらかにデータがなければ比較しない）
+  const comparePeriods = comparePeriodsOf(rangeWindow, compareMode, compareStartDate, compareEndDate, splitDate);
+  const { data: compareResult } = useQuery({
+    queryKey: ['speedData', 'compare', ...rangeKey, compareMode, compareStartDate, compareEndDate, splitDate, selectedProbe, includeManual],
+    queryFn: () => fetchComparison(
+      comparePeriodsOf(toRangeWindow(...rangeKey), compareMode, compareStartDate, compareEndDate, splitDate)!,
+      selectedProbe,
+      includeManual,
+    ),
+    enabled: comparePeriods !== null,
+    refetchInterval: pollInterval,
+    placeholderData: keepPreviousData,
+  });
+  const compareStats = comparePeriods && compareResult
+    && compareResult.comparison.download.before.count > 0 && compareResult.comparison.download.after.count > 0
+    ? compareResult.comparison
+    : null;
+  const compareLabels = comparePeriods && [comparePeriods[0].label, comparePeriods[1].label] as [string, string];
+
+  // 計測結果のあるプローブ（2台以上あるときだけ切り替え・比較を表示）
+  const { data: probes = [] } = useQuery({
+    queryKey: ['probes'],
+    queryFn: fetchProbes,
+    refetchInterval: pollInterval,
+  });
+  const multiProbe = probes.length > 1;
+
+  // 障害期間（稼働状況とグラフの網掛け）
+  const { data: outageReport } = useQuery({
+    queryKey: ['outages', ...rangeKey],
+    queryFn: () => fetchOutages(toRangeWindow(...rangeKey)),
+    refetchInterval: pollInterval,
+    placeholderData: keepPreviousData,
+  });
 
-  // 時間範囲でフィルター
-  const filteredData = useMemo(() => {
-    const now = new Date();
-    let cutoff: Date;
-
-    if (timeRange === 'custom' && customStartDate && customEndDate) {
-      const start = new Date(customStartDate);
-      const end = new Date(customEndDate);
-      end.setHours(23, 59, 59, 999); // 終日を含める
-      
-      return data.filter(d => {
-        const timestamp = new Date(d.timestamp);
-        return timestamp >= start && timestamp <= end;
-      });
-    }
-
-    switch (timeRange) {
-      case '24h':
-        cutoff = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-        break;
-      case '7d':
-        cutoff = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      default:
-        return data;
-    }
-
-    return data.filter(d => new Date(d.timestamp) >= cutoff);
-  }, [data, timeRange, customStartDate, customEndDate]);
-
-  // 基本統計
-  const stats = useMemo(() => {
-    if (filteredData.length === 0) {
-      return {
-        avgDownload: 0,
-        avgUpload: 0,
-        avgPing: 0,
-        avgJitter: 0,
-      };
-    }
-
-    return {
-      avgDownload: Math.round(filteredData.reduce((sum, d) => sum + d.download, 0) / filteredData.length * 100) / 100,
-      avgUpload: Math.round(filteredData.reduce((sum, d) => sum + d.upload, 0) / filteredData.length * 100) / 100,
-      avgPing: Math.round(filteredData.reduce((sum, d) => sum + d.ping, 0) / filteredData.length * 100) / 100,
-      avgJitter: Math.round(filteredData.reduce((sum, d) => sum + d.jitter, 0) / filteredData.length * 100) / 100,
-    };
-  }, [filteredData]);
-
-  // ピーク記録
-  const peakStats = useMemo(() => {
-    if (filteredData.length === 0) {
-      return {
-        maxDownload: 0,
-        maxDownloadTime: '',
-        maxUpload: 0,
-        maxUploadTime: '',
-        minPing: 0,
-        minPingTime: '',
-      };
-    }
-
-    const downloads = filteredData.map(d => d.download);
-    const uploads = filteredData.map(d => d.upload);
-    const pings = filteredData.map(d => d.ping);
-
-    const maxDownloadIndex = downloads.indexOf(Math.max(...downloads));
-    const maxUploadIndex = uploads.indexOf(Math.max(...uploads));
-    const minPingIndex = pings.indexOf(Math.min(...pings));
-
-    return {
-      maxDownload: Math.max(...downloads),
-      maxDownloadTime: new Date(filteredData[maxDownloadIndex].timestamp).toLocaleString('ja-JP'),
-      maxUpload: Math.max(...uploads),
-      maxUploadTime: new Date(filteredData[maxUploadIndex].timestamp).toLocaleString('ja-JP'),
-      minPing: Math.min(...pings),
-      minPingTime: new Date(filteredData[minPingIndex].timestamp).toLocaleString('ja-JP'),
-    };
-  }, [filteredData]);
-
-  // 時間帯別統計
-  const timeSlotStats = useMemo(() => {
-    const timeSlots = [
-      { name: '深夜 (00:00-03:00)', start: 0, end: 3 },
-      { name: '早朝 (03:00-06:00)', start: 3, end: 6 },
-      { name: '朝 (06:00-12:00)', start: 6, end: 12 },
-      { name: '昼 (12:00-16:00)', start: 12, end: 16 },
-      { name: '夕方 (16:00-20:00)', start: 16, end: 20 },
-      { name: '夜 (20:00-24:00)', start: 20, end: 24 },
-    ];
+  // 過去の同じ曜日・時間帯と比べて大きく悪化した計測（一覧とグラフの印）
+  const { data: anomalyReport } = useQuery({
+    queryKey: ['anomalies', ...rangeKey, selectedProbe],
+    queryFn: () => fetchAnomalies(toRangeWindow(...rangeKey), selectedProbe),
+    refetchInterval: pollInterval,
+    placeholderData: keepPreviousData,
+  });
 
-    return timeSlots.map(slot => {
-      const slotData = filteredData.filter(d => {
-        const hour = new Date(d.timestamp).getHours();
-        return hour >= slot.start && hour < slot.end;
-      });
-
-      if (slotData.length === 0) {
-        return {
-          slot: slot.name,
-          avgDownload: 0,
-          avgUpload: 0,
-          avgPing: 0,
-          avgJitter: 0,
-          count: 0,
-        };
-      }
-
-      return {
-        slot: slot.name,
-        avgDownload: Math.round(slotData.reduce((sum, d) => sum + d.download, 0) / slotData.length * 100) / 100,
-        avgUpload: Math.round(slotData.reduce((sum, d) => sum + d.upload, 0) / slotData.length * 100) / 100,
-        avgPing: Math.round(slotData.reduce((sum, d) => sum + d.ping, 0) / slotData.length * 100) / 100,
-        avgJitter: Math.round(slotData.reduce((sum, d) => sum + d.jitter, 0) / slotData.length * 100) / 100,
-        count: slotData.length,
-      };
-    });
-  }, [filteredData]);
-
-  // グラフ用データ
-  const chartData = useMemo(() => {
-    return filteredData.map(d => ({
-      time: new Date(d.timestamp).toLocaleString('ja-JP', {
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-      }),
-      下り: d.download,
-      上り: d.upload,
-      Ping: d.ping,
-      Jitter: d.jitter,
-    }));
-  }, [filteredData]);
+  // ルーター交換・再起動などの出来事（一覧とグラフの印）
+  const { data: annotations = [] } = useQuery({
+    queryKey: ['annotations', ...rangeKey],
+    queryFn: () => fetchAnnotations(toRangeWindow(...rangeKey)),
+    refetchInterval: pollInterval,
+    placeholderData: keepPreviousData,
+  });
 
   if (isLoading) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center">
+      <div className="py-24 flex items-center justify-center">
         <div className="text-2xl text-slate-600">読み込み中...</div>
       </div>
     );
   }
 
-  if (error) {
+  if (error || !summary) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center">
+      <div className="py-24 flex items-center justify-center">
         <div className="text-2xl text-red-600">エラーが発生しました</div>
       </div>
     );
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 p-6">
-      <div className="max-w-7xl mx-auto">
-        <header className="mb-8 flex justify-between items-start">
-          <div>
-            <h1 className="text-4xl font-bold text-slate-800 mb-2">
-              ネット速度モニター
-            </h1>
-            <p className="text-slate-600">
-              24時間の速度変動をリアルタイム監視 
-              {data.length > 0 && <span className="ml-2 text-sm">({data.length}件の測定データ)</span>}
+    <>
+      <header className="mb-8 flex justify-between items-start">
+        <div>
+          <h1 className="text-4xl font-bold text-slate-800 mb-2">
+            ネット速度モニター
+          </h1>
+          <p className="text-slate-600">
+            24時間の速度変動をリアルタイム監視 
+            {totalCount > 0 && <span className="ml-2 text-sm">({totalCount}件の測定データ)</span>}
+          </p>
+          {measuring && (
+            <p className="mt-2 inline-flex items-center gap-2 text-sm text-blue-600">
+              <span className="h-2 w-2 rounded-full bg-blue-600 animate-pulse"></span>
+              計測中…
             </p>
-          </div>
-          <button
-            onClick={() => setShowIntervalModal(true)}
-            className="bg-slate-800 text-white px-4 py-2 rounded-lg hover:bg-slate-700 transition flex items-center gap-2"
-          >
-            <span>⚙️</span>
-            <span>計測間隔: {config?.intervalMinutes || 30}分</span>
-          </button>
-        </header>
-
-        {/* 計測間隔変更モーダル */}
-        {showIntervalModal && (
-          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={() => setShowIntervalModal(false)}>
-            <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4" onClick={(e) => e.stopPropagation()}>
-              <h3 className="text-xl font-bold text-slate-800 mb-4">計測間隔の変更</h3>
-              <p className="text-sm text-slate-600 mb-4">
-                現在の設定: <span className="font-semibold">{config?.intervalMinutes || 30}分間隔</span>
-              </p>
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-slate-700 mb-2">
-                  新しい間隔（分）
-                </label>
-                <input
-                  type="number"
-                  min="1"
-                  max="1440"
-                  value={intervalInput}
-                  onChange={(e) => setIntervalInput(e.target.value)}
-                  placeholder="例: 30"
-                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-                <p className="text-xs text-slate-500 mt-1">1〜1440分の範囲で設定できます</p>
-              </div>
-              <div className="flex gap-3">
-                <button
-                  onClick={() => setShowIntervalModal(false)}
-                  className="flex-1 px-4 py-2 bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 transition"
-                >
-                  キャンセル
-                </button>
-                <button
-                  onClick={handleIntervalUpdate}
-                  disabled={mutation.isPending}
-                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
-                >
-                  {mutation.isPending ? '更新中...' : '更新'}
-                </button>
-              </div>
-              {mutation.isError && (
-                <p className="text-red-600 text-sm mt-3">エラーが発生しました</p>
-              )}
-              {mutation.isSuccess && (
-                <p className="text-green-600 text-sm mt-3">✓ 設定を更新しました（次回計測から反映）</p>
-              )}
-            </div>
-          </div>
-        )}
-
-        {/* 統計カード */}
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
-          <div className="bg-white rounded-lg shadow p-6">
-            <div className="text-sm text-slate-600 mb-1">平均下り速度</div>
-            <div className="text-3xl font-bold text-blue-600">{stats.avgDownload}</div>
-            <div className="text-xs text-slate-500">Mbps</div>
-          </div>
-
-          <div className="bg-white rounded-lg shadow p-6">
-            <div className="text-sm text-slate-600 mb-1">平均上り速度</div>
-            <div className="text-3xl font-bold text-green-600">{stats.avgUpload}</div>
-            <div className="text-xs text-slate-500">Mbps</div>
-          </div>
-
-          <div className="bg-white rounded-lg shadow p-6">
-            <div className="text-sm text-slate-600 mb-1">平均Ping</div>
-            <div className="text-3xl font-bold text-orange-600">{stats.avgPing}</div>
-            <div className="text-xs text-slate-500">ms</div>
-          </div>
-
-          <div className="bg-white rounded-lg shadow p-6">
-            <div className="text-sm text-slate-600 mb-1">平均Jitter</div>
-            <div className="text-3xl font-bold text-purple-600">{stats.avgJitter}</div>
-            <div className="text-xs text-slate-500">ms</div>
-          </div>
-        </div>
-
-        {/* ピーク記録 */}
-        <div className="bg-gradient-to-r from-blue-500 to-blue-600 rounded-lg shadow-lg p-6 mb-8 text-white">
-          <h2 className="text-xl font-bold mb-4">🏆 ピーク記録</h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div className="bg-white/10 rounded-lg p-4 backdrop-blur">
-              <div className="text-sm opacity-90 mb-1">最高下り速度</div>
-              <div className="text-2xl font-bold">{peakStats.maxDownload} Mbps</div>
-              <div className="text-xs opacity-75 mt-1">{peakStats.maxDownloadTime}</div>
-            </div>
-            <div className="bg-white/10 rounded-lg p-4 backdrop-blur">
-              <div className="text-sm opacity-90 mb-1">最高上り速度</div>
-              <div className="text-2xl font-bold">{peakStats.maxUpload} Mbps</div>
-              <div className="text-xs opacity-75 mt-1">{peakStats.maxUploadTime}</div>
-            </div>
-            <div className="bg-white/10 rounded-lg p-4 backdrop-blur">
-              <div className="text-sm opacity-90 mb-1">最低Ping</div>
-              <div className="text-2xl font-bold">{peakStats.minPing} ms</div>
-              <div className="text-xs opacity-75 mt-1">{peakStats.minPingTime}</div>
-            </div>
-          </div>
+          )}
         </div>
-
-        {/* 時間帯別統計 */}
-        <div className="bg-white rounded-lg shadow p-6 mb-6">
-          <h2 className="text-xl font-bold text-slate-800 mb-4">⏰ 時間帯別平均速度</h2>
-          <div className="overflow-x-auto">
-            <table className="w-full text-sm">
-              <thead>
-                <tr className="border-b-2 border-slate-200">
-                  <th className="text-left py-3 px-4 font-semibold text-slate-700">時間帯</th>
-                  <th className="text-right py-3 px-4 font-semibold text-blue-600">下り (Mbps)</th>
-                  <th className="text-right py-3 px-4 font-semibold text-green-600">上り (Mbps)</th>
-                  <th className="text-right py-3 px-4 font-semibold text-orange-600">Ping (ms)</th>
-                  <th className="text-right py-3 px-4 font-semibold text-purple-600">Jitter (ms)</th>
-                  <th className="text-right py-3 px-4 font-semibold text-slate-600">測定回数</th>
-                </tr>
-              </thead>
-              <tbody>
-                {timeSlotStats.map((slot, index) => (
-                  <tr key={index} className="border-b border-slate-100 hover:bg-slate-50">
-                    <td className="py-3 px-4 font-medium text-slate-700">{slot.slot}</td>
-                    <td className="py-3 px-4 text-right font-semibold text-blue-600">
-                      {slot.count > 0 ? slot.avgDownload : '-'}
-                    </td>
-                    <td className="py-3 px-4 text-right font-semibold text-green-600">
-                      {slot.count > 0 ? slot.avgUpload : '-'}
-                    </td>
-                    <td className="py-3 px-4 text-right font-semibold text-orange-600">
-                      {slot.count > 0 ? slot.avgPing : '-'}
-                    </td>
-                    <td className="py-3 px-4 text-right font-semibold text-purple-600">
-                      {slot.count > 0 ? slot.avgJitter : '-'}
-                    </td>
-                    <td className="py-3 px-4 text-right text-slate-600">{slot.count}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </div>
-
-        {/* 時間範囲選択 */}
-        <div className="bg-white rounded-lg shadow p-4 mb-6">
-          <div className="flex flex-wrap gap-2 items-center">
-            <button
-              onClick={() => setTimeRange('24h')}
-              className={`px-4 py-2 rounded-lg font-medium transition ${
-                timeRange === '24h'
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
-              }`}
-            >
-              24時間
-            </button>
-            <button
-              onClick={() => setTimeRange('7d')}
-              className={`px-4 py-2 rounded-lg font-medium transition ${
-                timeRange === '7d'
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
-              }`}
-            >
-              7日間
-            </button>
-            <button
-              onClick={() => setTimeRange('all')}
-              className={`px-4 py-2 rounded-lg font-medium transition ${
-                timeRange === 'all'
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
-              }`}
-            >
-              全期間
-            </button>
-            
-            <div className="h-6 w-px bg-slate-300 mx-2"></div>
-            
-            <button
-              onClick={() => setTimeRange('custom')}
-              className={`px-4 py-2 rounded-lg font-medium transition ${
-                timeRange === 'custom'
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
-              }`}
-            >
-              📅 期間指定
-            </button>
-            
-            {timeRange === 'custom' && (
-              <>
-                <input
-                  type="date"
-                  value={customStartDate}
-                  onChange={(e) => setCustomStartDate(e.target.value)}
-                  className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-                <span className="text-slate-600">〜</span>
-                <input
-                  type="date"
-                  value={customEndDate}
-                  onChange={(e) => setCustomEndDate(e.target.value)}
-                  className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-                {customStartDate && customEndDate && (
-                  <span className="text-sm text-slate-600">
-                    （{filteredData.length}件）
-                  </span>
-                )}
-              </>
-            )}
-          </div>
-        </div>
-
-        {/* 下り・上り速度グラフ */}
-        <div className="bg-white rounded-lg shadow p-6 mb-6">
-          <h2 className="text-xl font-bold text-slate-800 mb-4">通信速度（Mbps）</h2>
-          <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={chartData}>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis
-                dataKey="time"
-                tick={{ fontSize: 12 }}
-                angle={-45}
-                textAnchor="end"
-                height={80}
+        <MeasureControls config={config} measuring={measuring} connected={connected} />
+      </header>
+
+      {annotationDraft && (
+        <AnnotationForm annotation={annotationDraft} onClose={() => setAnnotationDraft(null)} />
+      )}
+
+      {/* 統計カード */}
+      {manualCount > 0 && (
+        <label className="flex items-center gap-2 mb-2 text-sm text-slate-600">
+          <input type="checkbox" checked={includeManual} onChange={(e) => setIncludeManual(e.target.checked)} />
+          手動計測（{manualCount}件）を統計に含める
+        </label>
+      )}
+      <label className="flex items-center gap-2 mb-2 text-sm text-slate-600">
+        <input
+          type="number"
+          min="1"
+          value={belowMbpsInput}
+          onChange={(e) => setBelowMbpsInput(e.target.value)}
+          placeholder={String(belowMbps)}
+          className="w-20 px-2 py-1 border border-slate-300 rounded"
+        />
+        Mbps 未満だった割合を表示
+      </label>
+      <StatCards summary={summary} belowMbps={belowMbps} comparison={compareStats} labels={compareLabels} />
+
+      {outageReport && <OutageStatus report={outageReport} />}
+      <BudgetCard refetchInterval={pollInterval} />
+      {anomalyReport && <AnomalyList report={anomalyReport} />}
+      <AnnotationList annotations={annotations} onSelect={setAnnotationDraft} />
+      <AlertHistory refetchInterval={pollInterval} />
+
+      <PeakStats summary={summary} comparison={compareStats} labels={compareLabels} />
+      <TimeSlotStats summary={summary} comparison={compareStats} labels={compareLabels} probe={selectedProbe} refetchInterval={pollInterval} />
+
+      {/* 曜日×時間帯 */}
+      <Heatmap
+        from={rangeWindow.from}
+        to={rangeWindow.to}
+        probe={selectedProbe}
+        refetchInterval={pollInterval}
+      />
+
+      {/* 分布 */}
+      <DistributionChart summary={summary} belowMbps={belowMbps} />
+
+      {/* サーバー・ISP別 */}
+      <BreakdownTable
+        from={rangeWindow.from}
+        to={rangeWindow.to}
+        probe={selectedProbe}
+        ookla={config?.ookla}
+        refetchInterval={pollInterval}
+      />
+
+      {/* 時間範囲選択 */}
+      <div className="bg-white rounded-lg shadow p-4 mb-6">
+        <div className="flex flex-wrap gap-2 items-center">
+          <TimeRangeSelector count={totalCount} />
+
+          <div className="h-6 w-px bg-slate-300 mx-2"></div>
+          <select
+            value={compareMode}
+            onChange={(e) => setCompareMode(e.target.value as CompareMode)}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="off">比較なし</option>
+            <option value="range">別の期間と比較</option>
+            <option value="split">日付の前後で比較</option>
+          </select>
+          {compareMode === 'range' && (
+            <>
+              <input
+                type="date"
+                value={compareStartDate}
+                onChange={(e) => setCompareStartDate(e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
-              <YAxis />
-              <Tooltip />
-              <Legend />
-              <Line type="monotone" dataKey="下り" stroke="#2563eb" strokeWidth={2} dot={false} />
-              <Line type="monotone" dataKey="上り" stroke="#16a34a" strokeWidth={2} dot={false} />
-            </LineChart>
-          </ResponsiveContainer>
-        </div>
-
-        {/* Ping・Jitterグラフ */}
-        <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-xl font-bold text-slate-800 mb-4">レイテンシ（ms）</h2>
-          <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={chartData}>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis
-                dataKey="time"
-                tick={{ fontSize: 12 }}
-                angle={-45}
-                textAnchor="end"
-                height={80}
+              <span className="text-slate-600">〜</span>
+              <input
+                type="date"
+                value={compareEndDate}
+                onChange={(e) => setCompareEndDate(e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
-              <YAxis />
-              <Tooltip />
-              <Legend />
-              <Line type="monotone" dataKey="Ping" stroke="#ea580c" strokeWidth={2} dot={false} />
-              <Line type="monotone" dataKey="Jitter" stroke="#9333ea" strokeWidth={2} dot={false} />
-            </LineChart>
-          </ResponsiveContainer>
-        </div>
+            </>
+          )}
+          {compareMode === 'split' && (
+            <>
+              <input
+                type="date"
+                value={splitDate}
+                onChange={(e) => setSplitDate(e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <span className="text-sm text-slate-600">の前後</span>
+            </>
+          )}
+          {compareMode !== 'off' && (
+            <span className="text-sm text-slate-600">
+              {compareStats
+                ? `（${compareStats.download.before.count}件 / ${compareStats.download.after.count}件）`
+                : compareResult && comparePeriods && '（どちらかの期間にデータがありません）'}
+            </span>
+          )}
+
+          {multiProbe && (
+            <>
+              <div className="h-6 w-px bg-slate-300 mx-2"></div>
+              <select
+                value={selectedProbe ?? '*'}
+                onChange={(e) => setSelectedProbe(e.target.value === '*' ? undefined : e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg"
+              >
+                <option value="*">すべてのプローブ</option>
+                {probes.map(p => (
+                  <option key={p.probe} value={p.probe}>{probeLabel(p)}</option>
+                ))}
+              </select>
+            </>
+          )}
 
-        <div className="mt-8 text-center text-sm text-slate-500">
-          最終更新: {new Date(dataUpdatedAt).toLocaleString('ja-JP')}
+          <DataTransfer from={rangeWindow.from} to={rangeWindow.to} probe={selectedProbe} />
         </div>
       </div>
-    </div>
+
+      <SpeedCharts
+        points={bucket !== undefined ? buckets.map(pointOfBucket) : filteredData.map(pointOfMeasurement)}
+        measurements={bucket === undefined ? filteredData : []}
+        clickable={bucket === undefined}
+        manualCount={manualCount}
+        compare={compareStats && compareLabels && compareResult ? { labels: compareLabels, series: compareResult.series } : null}
+        outageReport={outageReport}
+        anomalyReport={anomalyReport}
+        annotations={annotations}
+        onAnnotate={setAnnotationDraft}
+      />
+
+      {multiProbe && selectedProbe === undefined && (
+        <ProbeCharts probes={probes} measurements={filteredData} refetchInterval={pollInterval} />
+      )}
+
+      <HeartbeatStrip />
+
+      <div className="mt-8 text-center text-sm text-slate-500">
+        最終更新: {new Date(dataUpdatedAt).toLocaleString('ja-JP')}
+      </div>
+    </>
   );
 }
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toQueryString } from '../hooks/useTimeRange';
+import type { ExportFormat, ImportResult } from '../types/speed';
+
+// 拡張子から形式を判定（.json は Ookla CLI の出力の可能性もあるので中身も確認）
+const importFile = async (file: File): Promise<ImportResult> => {
+  const text = await file.text();
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const format = extension === 'csv'
+    ? 'csv'
+    : extension === 'ndjson' || extension === 'jsonl'
+      ? 'ndjson'
+      : text.includes('"bandwidth"') ? 'speedtest' : 'json';
+  const response = await fetch(`http://localhost:3001/api/import?format=${format}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain' },
+    body: text,
+  });
+  if (!response.ok) throw new Error('Failed to import data');
+  return response.json();
+};
+
+interface DataTransferProps {
+  // エクスポートする期間とプローブ（表示中のもの）
+  from?: string;
+  to?: string;
+  probe?: string;
+}
+
+// 計測履歴のエクスポート・インポート
+export default function DataTransfer({ from, to, probe }: DataTransferProps) {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const queryClient = useQueryClient();
+
+  const importMutation = useMutation({
+    mutationFn: importFile,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['speedData'] });
+      queryClient.invalidateQueries({ queryKey: ['speedBuckets'] });
+    },
+  });
+
+  return (
+    <>
+      <div className="ml-auto flex items-center gap-2">
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+          className="px-2 py-2 border border-slate-300 rounded-lg text-sm"
+        >
+          <option value="csv">CSV</option>
+          <option value="json">JSON</option>
+          <option value="ndjson">NDJSON</option>
+        </select>
+        <a
+          href={`http://localhost:3001/api/export?${toQueryString({ format: exportFormat, from, to, probe })}`}
+          download
+          className="px-4 py-2 rounded-lg font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 transition"
+        >
+          ⬇️ エクスポート
+        </a>
+        <label className="px-4 py-2 rounded-lg font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 transition cursor-pointer">
+          ⬆️ インポート
+          <input
+            type="file"
+            accept=".csv,.json,.ndjson,.jsonl"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importMutation.mutate(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      {importMutation.isError && (
+        <p className="basis-full text-red-600 text-sm mt-1">インポートに失敗しました</p>
+      )}
+      {importMutation.data && (
+        <p className="basis-full text-sm text-slate-600 mt-1">
+          {importMutation.data.imported}件を取り込みました（重複 {importMutation.data.duplicates}件、エラー {importMutation.data.errors.length}件）
+          {importMutation.data.errors.slice(0, 5).map(e => (
+            <span key={e.row} className="block text-xs text-red-600">{e.row}行目: {e.error}</span>
+          ))}
+        </p>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,25 @@
+import type { PeriodComparison } from '../../shared/stats';
+
+interface DeltaBadgeProps {
+  comparison: PeriodComparison;
+  unit: string;
+  higherIsBetter: boolean;
+}
+
+// 中央値の差。有意な差なら良化を緑・悪化を赤、そうでなければ灰色で示す
+export default function DeltaBadge({ comparison, unit, higherIsBetter }: DeltaBadgeProps) {
+  const improved = higherIsBetter ? comparison.delta > 0 : comparison.delta < 0;
+  const color = !comparison.significant || comparison.delta === 0
+    ? 'text-slate-500'
+    : improved ? 'text-green-600' : 'text-red-600';
+  return (
+    <span
+      className={`text-xs ${color}`}
+      title={comparison.pValue !== null ? `p = ${comparison.pValue}` : '件数が少ないため検定できません'}
+    >
+      {comparison.delta > 0 ? '▲' : comparison.delta < 0 ? '▼' : '±'}{Math.abs(comparison.delta)}{unit && ` ${unit}`}
+      {comparison.deltaPercent !== null && `（${comparison.deltaPercent > 0 ? '+' : ''}${comparison.deltaPercent}%）`}
+      {comparison.significant && ' *'}
+    </span>
+  );
+}
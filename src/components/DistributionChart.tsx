@@ -0,0 +1,87 @@
+import { useState, useMemo } from 'react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import type { RangeSummary, SummaryMetric } from '../types/speed';
+
+type Metric = SummaryMetric;
+
+const METRICS: Record<Metric, { label: string; unit: string; color: string }> = {
+  download: { label: '下り', unit: 'Mbps', color: '#2563eb' },
+  upload: { label: '上り', unit: 'Mbps', color: '#16a34a' },
+  ping: { label: 'Ping', unit: 'ms', color: '#ea580c' },
+  jitter: { label: 'Jitter', unit: 'ms', color: '#9333ea' },
+};
+
+interface DistributionChartProps {
+  // ヒストグラム・累積分布はサーバー側で求めたもの（GET /api/stats/summary）
+  summary: RangeSummary;
+  // 下り・上りで割合を表示するしきい値
+  belowMbps: number;
+}
+
+// 指標ごとの分布（ヒストグラム / 累積分布）
+export default function DistributionChart({ summary, belowMbps }: DistributionChartProps) {
+  const [metric, setMetric] = useState<Metric>('download');
+  const [mode, setMode] = useState<'histogram' | 'cdf'>('histogram');
+  const { label, unit, color } = METRICS[metric];
+  const isSpeed = unit === 'Mbps';
+
+  const bins = useMemo(
+    () => summary.histogram[metric].map(bin => ({ ...bin, range: `${bin.start}〜${bin.end}` })),
+    [summary, metric]
+  );
+  const points = summary.cdf[metric];
+  const below = summary.below && (metric === 'download' || metric === 'upload') ? summary.below[metric] : undefined;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <h2 className="text-xl font-bold text-slate-800 mr-auto">📶 分布（{label} {unit}）</h2>
+        {(Object.keys(METRICS) as Metric[]).map(m => (
+          <button
+            key={m}
+            onClick={() => setMetric(m)}
+            className={`px-3 py-1 rounded-lg text-sm font-medium transition ${
+              metric === m ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            {METRICS[m].label}
+          </button>
+        ))}
+        <div className="h-6 w-px bg-slate-300 mx-1"></div>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as 'histogram' | 'cdf')}
+          className="px-2 py-1 border border-slate-300 rounded-lg text-sm"
+        >
+          <option value="histogram">ヒストグラム</option>
+          <option value="cdf">累積分布（CDF）</option>
+        </select>
+      </div>
+      {below !== undefined && summary.count > 0 && (
+        <p className="text-sm text-slate-600 -mt-2 mb-2">
+          {belowMbps}Mbps 未満: <span className="font-semibold text-slate-800">{below}%</span>
+        </p>
+      )}
+      <ResponsiveContainer width="100%" height={260}>
+        {mode === 'histogram' ? (
+          <BarChart data={bins}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="range" tick={{ fontSize: 11 }} interval="preserveStartEnd" />
+            <YAxis unit="%" />
+            <Tooltip formatter={(value: number, _name, item) => [`${value}%（${item.payload.count}件）`, '割合']} />
+            <Bar dataKey="percent" fill={color} />
+          </BarChart>
+        ) : (
+          <LineChart data={points}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="value" type="number" domain={['dataMin', 'dataMax']} tick={{ fontSize: 12 }} />
+            <YAxis unit="%" domain={[0, 100]} />
+            <Tooltip labelFormatter={(value) => `${value} ${unit} 以下`} formatter={(value: number) => [`${value}%`, '割合']} />
+            {isSpeed && <ReferenceLine x={belowMbps} stroke="#dc2626" strokeDasharray="4 4" />}
+            <Line type="stepAfter" dataKey="percent" stroke={color} strokeWidth={2} dot={false} />
+          </LineChart>
+        )}
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useMemo } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useTimeRange, toRangeWindow, toQueryString, type RangeWindow } from '../hooks/useTimeRange';
+import { formatChartTime } from './SpeedCharts';
+import type { TimeRange, HeartbeatPoint } from '../types/speed';
+
+// 疎通確認は計測より細かいので、24時間は生データ、それ以上は集計して取得
+const heartbeatBucket = (timeRange: TimeRange, range: RangeWindow): string | undefined => {
+  if (timeRange === '24h') return undefined;
+  if (timeRange === '7d') return '10m';
+  return range.bucket ?? '10m';
+};
+
+const fetchHeartbeats = async (range: RangeWindow, bucket?: string): Promise<HeartbeatPoint[]> => {
+  const query = toQueryString({ from: range.from, to: range.to, bucket });
+  const response = await fetch(`http://localhost:3001/api/heartbeats?${query}`);
+  if (!response.ok) throw new Error('Failed to fetch heartbeats');
+  return response.json();
+};
+
+// 疎通確認のレイテンシと損失率（疎通確認が無効なら表示しない）
+export default function HeartbeatStrip() {
+  const { timeRange, rangeKey } = useTimeRange();
+
+  const { data: heartbeats = [] } = useQuery({
+    queryKey: ['heartbeats', ...rangeKey],
+    queryFn: () => {
+      const range = toRangeWindow(...rangeKey);
+      return fetchHeartbeats(range, heartbeatBucket(timeRange, range));
+    },
+    refetchInterval: 30000,
+    placeholderData: keepPreviousData,
+  });
+
+  const heartbeatChartData = useMemo(() => {
+    return heartbeats.map(h => ({
+      time: new Date(h.timestamp).getTime(),
+      レイテンシ: h.latency,
+      損失率: h.loss,
+    }));
+  }, [heartbeats]);
+
+  if (heartbeatChartData.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mt-6">
+      <h2 className="text-xl font-bold text-slate-800 mb-4">💓 疎通確認（レイテンシ ms / 損失率 %）</h2>
+      <ResponsiveContainer width="100%" height={160}>
+        <LineChart data={heartbeatChartData}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={formatChartTime}
+            tick={{ fontSize: 12 }}
+          />
+          <YAxis yAxisId="latency" />
+          <YAxis yAxisId="loss" orientation="right" domain={[0, 100]} />
+          <Tooltip labelFormatter={formatChartTime} />
+          <Legend />
+          <Line yAxisId="latency" type="monotone" dataKey="レイテンシ" stroke="#0891b2" strokeWidth={1} dot={false} connectNulls={false} />
+          <Line yAxisId="loss" type="stepAfter" dataKey="損失率" stroke="#dc2626" strokeWidth={1} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
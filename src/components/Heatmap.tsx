@@ -0,0 +1,124 @@
+import { useState, useMemo } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import type { HeatmapCell } from '../types/speed';
+
+type Metric = 'download' | 'upload' | 'ping';
+
+const METRICS: Record<Metric, { label: string; unit: string; higherIsBetter: boolean }> = {
+  download: { label: '下り', unit: 'Mbps', higherIsBetter: true },
+  upload: { label: '上り', unit: 'Mbps', higherIsBetter: true },
+  ping: { label: 'Ping', unit: 'ms', higherIsBetter: false },
+};
+
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+interface HeatmapProps {
+  from?: string;
+  to?: string;
+  probe?: string;
+  refetchInterval: number | false;
+}
+
+const fetchHeatmap = async (params: Record<string, string | undefined>): Promise<HeatmapCell[]> => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, value);
+  }
+  const response = await fetch(`http://localhost:3001/api/stats/heatmap?${query}`);
+  if (!response.ok) throw new Error('Failed to fetch heatmap');
+  return response.json();
+};
+
+// 0（悪い）〜1（良い）を赤→黄→緑の色にする
+const cellColor = (score: number) => `hsl(${Math.round(score * 120)}, 70%, 55%)`;
+
+// 曜日×時（7×24）ごとの中央値。混みやすい曜日・時間を見つけるためのもの
+export default function Heatmap({ from, to, probe, refetchInterval }: HeatmapProps) {
+  const [metric, setMetric] = useState<Metric>('download');
+  const { label, unit, higherIsBetter } = METRICS[metric];
+
+  const { data: cells = [] } = useQuery({
+    queryKey: ['heatmap', from, to, probe],
+    queryFn: () => fetchHeatmap({ from, to, probe }),
+    refetchInterval,
+    placeholderData: keepPreviousData,
+  });
+
+  const grid = useMemo(() => {
+    const byCell = new Map<string, HeatmapCell>();
+    for (const cell of cells) {
+      byCell.set(`${cell.day}:${cell.hour}`, cell);
+    }
+    return byCell;
+  }, [cells]);
+
+  const values = cells.map(cell => cell[metric]);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const score = (value: number) => {
+    const ratio = max > min ? (value - min) / (max - min) : 1;
+    return higherIsBetter ? ratio : 1 - ratio;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <h2 className="text-xl font-bold text-slate-800 mr-auto">🗓️ 曜日×時間帯（{label} 中央値）</h2>
+        {(Object.keys(METRICS) as Metric[]).map(m => (
+          <button
+            key={m}
+            onClick={() => setMetric(m)}
+            className={`px-3 py-1 rounded-lg text-sm font-medium transition ${
+              metric === m ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            {METRICS[m].label}
+          </button>
+        ))}
+      </div>
+      {cells.length === 0 ? (
+        <p className="py-6 text-center text-sm text-slate-500">データがありません</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="border-separate text-xs" style={{ borderSpacing: 2 }}>
+            <thead>
+              <tr>
+                <th></th>
+                {HOURS.map(hour => (
+                  <th key={hour} className="w-7 font-normal text-slate-500">{hour}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {WEEKDAYS.map((weekday, day) => (
+                <tr key={day}>
+                  <th className="pr-2 font-medium text-slate-600">{weekday}</th>
+                  {HOURS.map(hour => {
+                    const cell = grid.get(`${day}:${hour}`);
+                    return (
+                      <td
+                        key={hour}
+                        className="h-7 w-7 rounded"
+                        style={{ backgroundColor: cell ? cellColor(score(cell[metric])) : '#f1f5f9' }}
+                        title={cell
+                          ? `${weekday} ${hour}時: 中央値 ${cell[metric]} ${unit}（${cell.count}件）`
+                          : `${weekday} ${hour}時: 計測なし`}
+                      />
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex items-center gap-2 mt-3 text-xs text-slate-500">
+            <span>{higherIsBetter ? min : max} {unit}</span>
+            <div className="h-2 w-32 rounded" style={{ background: `linear-gradient(to right, ${cellColor(0)}, ${cellColor(0.5)}, ${cellColor(1)})` }} />
+            <span>{higherIsBetter ? max : min} {unit}</span>
+            <span className="ml-2">（灰色は計測なし）</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
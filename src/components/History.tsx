@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { Link } from '@tanstack/react-router';
+import { useServerEvents } from '../hooks/useServerEvents';
+import { useTimeRange, toRangeWindow, toQueryString, type RangeWindow } from '../hooks/useTimeRange';
+import TimeRangeSelector from './TimeRangeSelector';
+import { METHOD_LABELS } from './Settings';
+import type { SpeedData, MeasurementMethod, ProbeSummary } from '../types/speed';
+
+type SortKey = 'timestamp' | 'download' | 'upload' | 'ping' | 'jitter' | 'server';
+
+const COLUMNS: [SortKey, string][] = [
+  ['timestamp', '日時'],
+  ['download', '下り (Mbps)'],
+  ['upload', '上り (Mbps)'],
+  ['ping', 'Ping (ms)'],
+  ['jitter', 'Jitter (ms)'],
+  ['server', 'サーバー'],
+];
+
+const PAGE_SIZE = 50;
+
+interface HistoryFilters {
+  probe?: string;
+  method: MeasurementMethod | '';
+  manual: 'all' | 'manual' | 'scheduled';
+  // サーバー名・ISP の部分一致
+  text: string;
+  sortKey: SortKey;
+  descending: boolean;
+}
+
+interface HistoryPage {
+  rows: SpeedData[];
+  // 次のページを取得するカーソル（最後のページなら undefined）
+  nextCursor?: string;
+  total: number;
+}
+
+// 絞り込み・並べ替え・ページ送りはサーバー側で行い、1ページ分だけ取得する
+const fetchHistoryPage = async (range: RangeWindow, filters: HistoryFilters, cursor?: string): Promise<HistoryPage> => {
+  const query = toQueryString({
+    from: range.from,
+    to: range.to,
+    probe: filters.probe,
+    method: filters.method || undefined,
+    manual: filters.manual === 'manual' ? 'only' : filters.manual === 'scheduled' ? 'exclude' : undefined,
+    q: filters.text.trim() || undefined,
+    sort: filters.sortKey,
+    order: filters.descending ? 'desc' : 'asc',
+    limit: String(PAGE_SIZE),
+    cursor,
+  });
+  const response = await fetch(`http://localhost:3001/api/speed-data?${query}`);
+  if (!response.ok) throw new Error('Failed to fetch data');
+  return {
+    rows: await response.json(),
+    nextCursor: response.headers.get('X-Next-Cursor') ?? undefined,
+    total: Number(response.headers.get('X-Total-Count') ?? 0),
+  };
+};
+
+const fetchProbes = async (): Promise<ProbeSummary[]> => {
+  const response = await fetch('http://localhost:3001/api/probes');
+  if (!response.ok) throw new Error('Failed to fetch probes');
+  return response.json();
+};
+
+// すべての計測結果の一覧（並べ替え・絞り込み・ページ送り）
+export default function History() {
+  const { rangeKey } = useTimeRange();
+  const [sortKey, setSortKey] = useState<SortKey>('timestamp');
+  const [descending, setDescending] = useState(true);
+  const [probeFilter, setProbeFilter] = useState<string | undefined>(undefined);
+  const [methodFilter, setMethodFilter] = useState<MeasurementMethod | ''>('');
+  const [manualFilter, setManualFilter] = useState<'all' | 'manual' | 'scheduled'>('all');
+  const [textFilter, setTextFilter] = useState('');
+  const filters: HistoryFilters = {
+    probe: probeFilter, method: methodFilter, manual: manualFilter, text: textFilter, sortKey, descending,
+  };
+
+  // 各ページの先頭を指すカーソル（前へ戻るときに使う）。期間・絞り込み・並び順が変わったら先頭から
+  const listKey = JSON.stringify([...rangeKey, filters]);
+  const [pages, setPages] = useState<{ key: string; cursors: (string | undefined)[] }>({ key: listKey, cursors: [undefined] });
+  const cursors = pages.key === listKey ? pages.cursors : [undefined];
+  const currentPage = cursors.length - 1;
+
+  const { connected } = useServerEvents();
+  const { data, isLoading, isPlaceholderData, error } = useQuery({
+    queryKey: ['speedData', 'history', ...rangeKey, filters, cursors[currentPage]],
+    queryFn: () => fetchHistoryPage(toRangeWindow(...rangeKey), filters, cursors[currentPage]),
+    refetchInterval: connected ? false : 30000,
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: probes = [] } = useQuery({
+    queryKey: ['probes'],
+    queryFn: fetchProbes,
+    refetchInterval: connected ? false : 30000,
+  });
+
+  const pageRows = data?.rows ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  // ちょうど最後の行で終わるページにもカーソルは付くので、件数でも判定する。切り替え中は前のページを表示したまま待つ
+  const hasNextPage = !isPlaceholderData && data?.nextCursor !== undefined && (currentPage + 1) * PAGE_SIZE < total;
+  const showNextPage = () => {
+    if (hasNextPage) setPages({ key: listKey, cursors: [...cursors, data!.nextCursor] });
+  };
+  const showPreviousPage = () => setPages({ key: listKey, cursors: cursors.slice(0, -1) });
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(key === 'timestamp' || key === 'download' || key === 'upload');
+    }
+  };
+
+  const filterClass = 'px-3 py-2 border border-slate-300 rounded-lg text-sm';
+
+  return (
+    <>
+      <div className="bg-white rounded-lg shadow p-4 mb-6">
+        <div className="flex flex-wrap gap-2 items-center">
+          <TimeRangeSelector count={total} />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex flex-wrap gap-2 items-center mb-4">
+          <h2 className="text-xl font-bold text-slate-800 mr-auto">🗂️ 計測履歴</h2>
+          {probes.length > 1 && (
+            <select
+              value={probeFilter ?? '*'}
+              onChange={(e) => { setProbeFilter(e.target.value === '*' ? undefined : e.target.value) }}
+              className={filterClass}
+            >
+              <option value="*">すべてのプローブ</option>
+              {probes.map(probe => (
+                <option key={probe.probe} value={probe.probe}>
+                  {probe.probe || 'このホスト'}{probe.network ? `（${probe.network}）` : ''}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={methodFilter}
+            onChange={(e) => { setMethodFilter(e.target.value as MeasurementMethod | '') }}
+            className={filterClass}
+          >
+            <option value="">すべての方式</option>
+            {(Object.keys(METHOD_LABELS) as MeasurementMethod[]).map(method => (
+              <option key={method} value={method}>{METHOD_LABELS[method]}</option>
+            ))}
+          </select>
+          <select
+            value={manualFilter}
+            onChange={(e) => { setManualFilter(e.target.value as 'all' | 'manual' | 'scheduled') }}
+            className={filterClass}
+          >
+            <option value="all">定期・手動</option>
+            <option value="scheduled">定期計測のみ</option>
+            <option value="manual">手動計測のみ</option>
+          </select>
+          <input
+            type="search"
+            value={textFilter}
+            onChange={(e) => { setTextFilter(e.target.value) }}
+            placeholder="サーバー・ISPで絞り込み"
+            className={filterClass}
+          />
+        </div>
+
+        {isLoading ? (
+          <p className="text-slate-600">読み込み中...</p>
+        ) : error ? (
+          <p className="text-red-600">エラーが発生しました</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-200">
+                    {COLUMNS.map(([key, label]) => (
+                      <th
+                        key={key}
+                        onClick={() => handleSort(key)}
+                        className={`py-2 pr-4 cursor-pointer select-none hover:text-slate-800 ${key !== 'timestamp' && key !== 'server' ? 'text-right' : ''}`}
+                      >
+                        {label}{sortKey === key ? (descending ? ' ▼' : ' ▲') : ''}
+                      </th>
+                    ))}
+                    <th className="py-2">方式</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pageRows.map(d => (
+                    <tr key={`${d.probe ?? ''}-${d.timestamp}`} className="border-b border-slate-100 hover:bg-slate-50">
+                      <td className="py-2 pr-4">
+                        <Link
+                          to="/measurements/$timestamp"
+                          params={{ timestamp: d.timestamp }}
+                          search={(prev) => ({ ...prev, probe: d.probe })}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {new Date(d.timestamp).toLocaleString('ja-JP')}
+                        </Link>
+                      </td>
+                      <td className="py-2 pr-4 text-right text-slate-800">{d.download}</td>
+                      <td className="py-2 pr-4 text-right text-slate-800">{d.upload}</td>
+                      <td className="py-2 pr-4 text-right text-slate-800">{d.ping}</td>
+                      <td className="py-2 pr-4 text-right text-slate-800">{d.jitter}</td>
+                      <td className="py-2 pr-4 text-slate-600">{d.server ?? '-'}</td>
+                      <td className="py-2 text-slate-600">
+                        {d.method ? METHOD_LABELS[d.method] : '-'}
+                        {d.manual && <span className="ml-1 text-xs text-slate-500">（手動）</span>}
+                      </td>
+                    </tr>
+                  ))}
+                  {pageRows.length === 0 && (
+                    <tr>
+                      <td colSpan={COLUMNS.length + 1} className="py-6 text-center text-slate-500">該当する計測はありません</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex items-center justify-between mt-4 text-sm text-slate-600">
+              <span>{total}件中 {pageRows.length === 0 ? 0 : currentPage * PAGE_SIZE + 1}〜{currentPage * PAGE_SIZE + pageRows.length}件</span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={showPreviousPage}
+                  disabled={currentPage === 0}
+                  className="px-3 py-1 bg-slate-100 rounded-lg hover:bg-slate-200 transition disabled:opacity-50"
+                >
+                  ← 前へ
+                </button>
+                <span>{currentPage + 1} / {pageCount}</span>
+                <button
+                  onClick={showNextPage}
+                  disabled={!hasNextPage}
+                  className="px-3 py-1 bg-slate-100 rounded-lg hover:bg-slate-200 transition disabled:opacity-50"
+                >
+                  次へ →
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+import { Link, Outlet } from '@tanstack/react-router';
+
+const NAV_ITEMS = [
+  { to: '/', label: '📈 概要' },
+  { to: '/history', label: '🗂️ 履歴' },
+  { to: '/reports', label: '📋 レポート' },
+  { to: '/settings', label: '⚙️ 設定' },
+] as const;
+
+// 全ページ共通の枠とナビゲーション（表示範囲の検索パラメータはページ間で引き継ぐ）
+export default function Layout() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 p-6">
+      <div className="max-w-7xl mx-auto">
+        <nav className="flex flex-wrap gap-2 mb-6">
+          {NAV_ITEMS.map(item => (
+            <Link
+              key={item.to}
+              to={item.to}
+              search={true}
+              activeOptions={{ exact: item.to === '/', includeSearch: false }}
+              className="px-4 py-2 rounded-lg font-medium transition"
+              activeProps={{ className: 'bg-slate-800 text-white' }}
+              inactiveProps={{ className: 'text-slate-700 hover:bg-slate-200' }}
+            >
+              {item.label}
+            </Link>
+          ))}
+        </nav>
+        <Outlet />
+      </div>
+    </div>
+  );
+}
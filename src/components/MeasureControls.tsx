@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from '@tanstack/react-router';
+import type { Config, MeasureJob } from '../types/speed';
+
+// 今すぐ計測（既に計測中ならそのジョブが返る）
+const requestMeasurement = async (): Promise<MeasureJob> => {
+  const response = await fetch('http://localhost:3001/api/measure', { method: 'POST' });
+  if (!response.ok) throw new Error('Failed to request measurement');
+  return response.json();
+};
+
+const fetchMeasureJob = async (id: string): Promise<MeasureJob> => {
+  const response = await fetch(`http://localhost:3001/api/measure/${id}`);
+  if (!response.ok) throw new Error('Failed to fetch measure job');
+  return response.json();
+};
+
+interface MeasureControlsProps {
+  config?: Config;
+  // イベントストリームの状態（useServerEvents）
+  measuring: boolean;
+  connected: boolean;
+}
+
+// 「今すぐ計測」ボタンと計測ジョブの進捗、設定ページへのリンク
+export default function MeasureControls({ config, measuring, connected }: MeasureControlsProps) {
+  const [measureJobId, setMeasureJobId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const measureMutation = useMutation({
+    mutationFn: requestMeasurement,
+    onSuccess: (job) => {
+      queryClient.setQueryData(['measureJob', job.id], job);
+      setMeasureJobId(job.id);
+    },
+  });
+
+  // 手動計測の進捗（イベントストリーム切断中はポーリング）
+  const { data: measureJob } = useQuery({
+    queryKey: ['measureJob', measureJobId],
+    queryFn: () => fetchMeasureJob(measureJobId!),
+    enabled: measureJobId !== null,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return !connected && (status === 'queued' || status === 'running') ? 2000 : false;
+    },
+  });
+  const measureBusy = measuring || measureMutation.isPending
+    || measureJob?.status === 'queued' || measureJob?.status === 'running';
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex gap-2">
+        <button
+          onClick={() => measureMutation.mutate()}
+          disabled={measureBusy}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition flex items-center gap-2 disabled:opacity-50"
+        >
+          <span>▶️</span>
+          <span>{measureBusy ? '計測中…' : '今すぐ計測'}</span>
+        </button>
+        <Link
+          to="/settings"
+          search={true}
+          className="bg-slate-800 text-white px-4 py-2 rounded-lg hover:bg-slate-700 transition flex items-center gap-2"
+        >
+          <span>⚙️</span>
+          <span>
+            計測間隔: {config?.intervalMinutes || 30}分
+            {config?.schedule?.length ? `（時間帯ルール${config.schedule.length}件）` : ''}
+          </span>
+        </Link>
+      </div>
+      {measureMutation.isError && (
+        <p className="text-red-600 text-sm">計測を要求できませんでした</p>
+      )}
+      {measureJob?.status === 'queued' && (
+        <p className="text-sm text-slate-600">
+          計測を要求しました{measureJob.merged && '（実行中の計測に合流）'}
+        </p>
+      )}
+      {measureJob?.status === 'completed' && measureJob.result && (
+        <p className="text-sm text-green-600">
+          ✓ 計測完了: 下り {measureJob.result.download} Mbps / 上り {measureJob.result.upload} Mbps / Ping {measureJob.result.ping} ms
+        </p>
+      )}
+      {measureJob?.status === 'failed' && (
+        <p className="text-sm text-red-600">計測に失敗しました: {measureJob.error}</p>
+      )}
+    </div>
+  );
+}
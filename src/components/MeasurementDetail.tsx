@@ -0,0 +1,135 @@
+import { useQuery } from '@tanstack/react-query';
+import { Link } from '@tanstack/react-router';
+import type { SpeedData } from '../types/speed';
+
+interface MeasurementDetailProps {
+  // 計測の時刻（ISO 8601）。URLの /measurements/$timestamp から渡される
+  timestamp: string;
+  // 計測したプローブ（URLの ?probe=。省略時はこのホスト自身）
+  probe?: string;
+}
+
+// 同じ時刻・同じプローブの計測だけを取得する（from・to は両端を含む）
+const fetchMeasurement = async (timestamp: string, probe: string): Promise<SpeedData | null> => {
+  const query = new URLSearchParams({ from: timestamp, to: timestamp, probe });
+  const response = await fetch(`http://localhost:3001/api/speed-data?${query}`);
+  if (!response.ok) throw new Error('Failed to fetch measurement');
+  const data: SpeedData[] = await response.json();
+  return data[0] ?? null;
+};
+
+const formatMB = (bytes?: number) => bytes === undefined ? undefined : `${Math.round(bytes / 1000000)} MB`;
+const withUnit = (value: number | undefined, unit: string) => value === undefined ? undefined : `${value} ${unit}`;
+// 取り込んだデータなどに javascript: のURLが混ざっていてもリンクにしない
+const isHttpUrl = (url?: string): url is string => url !== undefined && /^https?:\/\//i.test(url);
+
+// 1回分の計測の詳細（グラフの点や履歴の一覧から開く）
+export default function MeasurementDetail({ timestamp, probe = '' }: MeasurementDetailProps) {
+  const { data: m, isLoading, error } = useQuery({
+    queryKey: ['measurement', timestamp, probe],
+    queryFn: () => fetchMeasurement(timestamp, probe),
+  });
+
+  const backLink = (
+    <Link to="/history" search={({ probe, ...range }) => range} className="text-sm text-blue-600 hover:underline">
+      ← 計測履歴に戻る
+    </Link>
+  );
+
+  if (isLoading) {
+    return <div className="py-24 text-center text-2xl text-slate-600">読み込み中...</div>;
+  }
+
+  if (error || !m) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 max-w-2xl">
+        {backLink}
+        <p className={`mt-4 ${error ? 'text-red-600' : 'text-slate-600'}`}>
+          {error ? 'エラーが発生しました' : `${timestamp} の計測は見つかりませんでした（保持期間を過ぎて集計済みの可能性があります）`}
+        </p>
+      </div>
+    );
+  }
+
+  const sections: { title: string; rows: [string, string | undefined][] }[] = [
+    {
+      title: '計測結果',
+      rows: [
+        ['下り', withUnit(m.download, 'Mbps')],
+        ['上り', withUnit(m.upload, 'Mbps')],
+        ['Ping（無負荷）', withUnit(m.ping, 'ms')],
+        ['Jitter', withUnit(m.jitter, 'ms')],
+        ['負荷時レイテンシ（下り）', withUnit(m.downloadLatency, 'ms')],
+        ['負荷時レイテンシ（上り）', withUnit(m.uploadLatency, 'ms')],
+        ['パケットロス', withUnit(m.packetLoss, '%')],
+        ['通信量（下り / 上り）', m.downloadBytes !== undefined || m.uploadBytes !== undefined
+          ? `${formatMB(m.downloadBytes) ?? '-'} / ${formatMB(m.uploadBytes) ?? '-'}`
+          : undefined],
+      ],
+    },
+    {
+      title: 'サーバー',
+      rows: [
+        ['名前', m.server],
+        ['場所', m.serverLocation],
+        ['ホスト', m.serverHost],
+        ['ID', m.serverId?.toString()],
+        ['ISP', m.isp],
+      ],
+    },
+    {
+      title: '接続',
+      rows: [
+        ['外部IP', m.externalIp],
+        ['内部IP', m.internalIp],
+        ['インターフェース', m.interfaceName],
+        ['VPN', m.isVpn === undefined ? undefined : m.isVpn ? 'あり' : 'なし'],
+        ['プローブ', m.probe],
+        ['ホスト名', m.hostname],
+        ['回線', m.network],
+      ],
+    },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 max-w-2xl">
+      {backLink}
+      <div className="mt-4 mb-4">
+        <h2 className="text-2xl font-bold text-slate-800">計測の詳細</h2>
+        <p className="text-sm text-slate-600">
+          {new Date(m.timestamp).toLocaleString('ja-JP')}
+          {m.method && <span className="ml-2">（{m.method}{m.manual ? '・手動' : ''}）</span>}
+        </p>
+      </div>
+
+      {sections.map(section => {
+        const rows = section.rows.filter(([, value]) => value !== undefined);
+        if (rows.length === 0) return null;
+        return (
+          <div key={section.title} className="mb-4">
+            <h4 className="text-sm font-medium text-slate-500 mb-1">{section.title}</h4>
+            <dl className="text-sm">
+              {rows.map(([label, value]) => (
+                <div key={label} className="flex justify-between py-1 border-b border-slate-100">
+                  <dt className="text-slate-600">{label}</dt>
+                  <dd className="text-slate-800 font-medium text-right">{value}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        );
+      })}
+
+      {isHttpUrl(m.resultUrl) && (
+        <a
+          href={m.resultUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-block mt-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+        >
+          🔗 Speedtest.net の結果を開く
+        </a>
+      )}
+    </div>
+  );
+}
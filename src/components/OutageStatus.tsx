@@ -0,0 +1,26 @@
+import type { OutageReport } from '../types/speed';
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}分`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours}時間` : `${hours}時間${minutes % 60}分`;
+};
+
+// 表示期間の可用性・ダウンタイム・障害件数
+export default function OutageStatus({ report }: { report: OutageReport }) {
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-8 flex flex-wrap gap-6 items-center text-sm">
+      <span className="font-semibold text-slate-700">🔌 稼働状況</span>
+      <span className="text-slate-600">
+        可用性: <span className="font-bold text-slate-800">{report.availability}%</span>
+      </span>
+      <span className="text-slate-600">
+        ダウンタイム: <span className="font-bold text-red-600">{formatDuration(report.totalDowntimeMs)}</span>
+      </span>
+      <span className="text-slate-600">
+        障害: <span className="font-bold text-slate-800">{report.outages.length}件</span>
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import type { PeakRecord, RangeSummary, RangeComparison } from '../types/speed';
+
+const PEAKS = [
+  ['最高下り速度', 'download', 'Mbps'],
+  ['最高上り速度', 'upload', 'Mbps'],
+  ['最低Ping', 'ping', 'ms'],
+] as const;
+
+// ピーク記録の値と時刻（計測がなければ -）
+const formatPeak = (peak: PeakRecord | null, unit: string) => ({
+  value: peak ? `${peak.value} ${unit}` : '-',
+  time: peak ? new Date(peak.timestamp).toLocaleString('ja-JP') : '',
+});
+
+interface PeakStatsProps {
+  summary: RangeSummary;
+  // 比較モードでは2つの期間のピークを並べる
+  comparison: RangeComparison | null;
+  labels: [string, string] | null;
+}
+
+// 最高速度・最低Pingとその時刻、上位5%の目安
+export default function PeakStats({ summary, comparison, labels }: PeakStatsProps) {
+  return (
+    <div className="bg-gradient-to-r from-blue-500 to-blue-600 rounded-lg shadow-lg p-6 mb-8 text-white">
+      <h2 className="text-xl font-bold mb-4">🏆 ピーク記録</h2>
+      {comparison && labels ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {PEAKS.map(([title, metric, unit]) => (
+            <div key={title} className="bg-white/10 rounded-lg p-4 backdrop-blur">
+              <div className="text-sm opacity-90 mb-1">{title}</div>
+              <div className="grid grid-cols-2 gap-3">
+                {comparison.peaks.map((peaks, index) => {
+                  const peak = formatPeak(peaks[metric], unit);
+                  const distribution = comparison[metric][index === 0 ? 'before' : 'after'];
+                  return (
+                    <div key={labels[index]}>
+                      <div className="text-xs opacity-75">{labels[index]}</div>
+                      <div className="text-xl font-bold">{peak.value}</div>
+                      <div className="text-xs opacity-75 mt-1">{peak.time}</div>
+                      <div className="text-xs opacity-75">
+                        上位5%: {metric === 'ping' ? `${distribution.p5} ${unit} 以下` : `${distribution.p95} ${unit} 以上`}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {PEAKS.map(([title, metric, unit]) => {
+            const peak = formatPeak(summary.peaks[metric], unit);
+            return (
+              <div key={title} className="bg-white/10 rounded-lg p-4 backdrop-blur">
+                <div className="text-sm opacity-90 mb-1">{title}</div>
+                <div className="text-2xl font-bold">{peak.value}</div>
+                <div className="text-xs opacity-75 mt-1">{peak.time}</div>
+                <div className="text-xs opacity-75">
+                  上位5%: {metric === 'ping' ? `${summary.ping.p5} ${unit} 以下` : `${summary[metric].p95} ${unit} 以上`}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useMemo } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useTimeRange, toRangeWindow, toQueryString, type RangeWindow } from '../hooks/useTimeRange';
+import { formatChartTime, pointOfMeasurement, pointOfBucket } from './SpeedCharts';
+import type { SpeedData, SpeedBucket, ProbeSummary } from '../types/speed';
+
+// プローブ比較グラフの線の色
+const PROBE_COLORS = ['#2563eb', '#16a34a', '#ea580c', '#9333ea', '#0891b2', '#db2777'];
+
+export const probeLabel = (probe: Pick<ProbeSummary, 'probe' | 'network'>): string => {
+  const name = probe.probe || 'このホスト';
+  return probe.network ? `${name}（${probe.network}）` : name;
+};
+
+const fetchSpeedBuckets = async (range: RangeWindow, probe: string): Promise<SpeedBucket[]> => {
+  const response = await fetch(`http://localhost:3001/api/speed-data?${toQueryString({ ...range, probe })}`);
+  if (!response.ok) throw new Error('Failed to fetch data');
+  return response.json();
+};
+
+// 長期間の比較用に、プローブごとの集計済みバケットを取得する
+const fetchProbeBuckets = async (range: RangeWindow, probes: string[]): Promise<{ probe: string; buckets: SpeedBucket[] }[]> =>
+  Promise.all(probes.map(async probe => ({ probe, buckets: await fetchSpeedBuckets(range, probe) })));
+
+interface ProbeChartsProps {
+  probes: ProbeSummary[];
+  // 全プローブの生データ（集計表示では使わず、プローブごとのバケットを取得する）
+  measurements: SpeedData[];
+  refetchInterval: number | false;
+}
+
+// プローブごとの下り・Pingを横並びで比較する（計測時刻が揃わないので線は欠損をまたいでつなぐ）
+export default function ProbeCharts({ probes, measurements, refetchInterval }: ProbeChartsProps) {
+  const { rangeKey, rangeWindow } = useTimeRange();
+  const bucketed = rangeWindow.bucket !== undefined;
+
+  const { data: probeBuckets = [] } = useQuery({
+    queryKey: ['speedBuckets', 'probes', ...rangeKey, probes.map(p => p.probe).join(',')],
+    queryFn: () => fetchProbeBuckets(toRangeWindow(...rangeKey), probes.map(p => p.probe)),
+    enabled: bucketed,
+    refetchInterval,
+    placeholderData: keepPreviousData,
+  });
+
+  const probeChartData = useMemo(() => {
+    const networks = new Map(probes.map(p => [p.probe, p.network]));
+    const rows = bucketed
+      ? probeBuckets.flatMap(({ probe, buckets }) => buckets.map(b => ({ probe, point: pointOfBucket(b) })))
+      : measurements.map(d => ({ probe: d.probe ?? '', point: pointOfMeasurement(d) }));
+    return rows
+      .map(({ probe, point }) => {
+        const label = probeLabel({ probe, network: networks.get(probe) });
+        return {
+          time: point.time,
+          [`下り:${label}`]: point.下り,
+          [`Ping:${label}`]: point.Ping,
+        };
+      })
+      .sort((a, b) => a.time - b.time);
+  }, [measurements, probeBuckets, probes, bucketed]);
+
+  if (probeChartData.length === 0) return null;
+
+  return (
+    <>
+      {(['下り', 'Ping'] as const).map(metric => (
+        <div key={metric} className="bg-white rounded-lg shadow p-6 mt-6">
+          <h2 className="text-xl font-bold text-slate-800 mb-4">
+            🛰 プローブ比較: {metric === '下り' ? '下り速度（Mbps）' : 'Ping（ms）'}
+          </h2>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={probeChartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatChartTime}
+                tick={{ fontSize: 12 }}
+                angle={-45}
+                textAnchor="end"
+                height={80}
+              />
+              <YAxis />
+              <Tooltip labelFormatter={formatChartTime} />
+              <Legend />
+              {probes.map((p, index) => (
+                <Line
+                  key={p.probe}
+                  type="monotone"
+                  dataKey={`${metric}:${probeLabel(p)}`}
+                  name={probeLabel(p)}
+                  stroke={PROBE_COLORS[index % PROBE_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,163 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { useServerEvents } from '../hooks/useServerEvents';
+import { useTimeRange, toRangeWindow, toQueryString, type RangeWindow } from '../hooks/useTimeRange';
+import TimeRangeSelector from './TimeRangeSelector';
+import type { OutageReport, SlaReport } from '../types/speed';
+
+// 契約プラン未設定（404）の場合は null
+const fetchSlaReport = async (range: RangeWindow): Promise<SlaReport | null> => {
+  const query = toQueryString({ from: range.from, to: range.to });
+  const response = await fetch(`http://localhost:3001/api/reports/sla?${query}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error('Failed to fetch SLA report');
+  return response.json();
+};
+
+const fetchOutages = async (range: RangeWindow): Promise<OutageReport> => {
+  const query = toQueryString({ from: range.from, to: range.to });
+  const response = await fetch(`http://localhost:3001/api/outages?${query}`);
+  if (!response.ok) throw new Error('Failed to fetch outages');
+  return response.json();
+};
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}分`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours}時間` : `${hours}時間${minutes % 60}分`;
+};
+
+// 表示範囲のSLAレポートと障害の一覧
+export default function Reports() {
+  const { rangeKey } = useTimeRange();
+  const { connected } = useServerEvents();
+  const pollInterval = connected ? false : 30000;
+
+  const { data: slaReport, isLoading } = useQuery({
+    queryKey: ['slaReport', ...rangeKey],
+    queryFn: () => fetchSlaReport(toRangeWindow(...rangeKey)),
+    refetchInterval: pollInterval,
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: outageReport } = useQuery({
+    queryKey: ['outages', ...rangeKey],
+    queryFn: () => fetchOutages(toRangeWindow(...rangeKey)),
+    refetchInterval: pollInterval,
+    placeholderData: keepPreviousData,
+  });
+
+  // SLA違反の連続期間に重なる出来事
+  const annotationsDuring = (start: string, end: string) =>
+    (slaReport?.annotations ?? []).filter(a => a.timestamp <= end && (a.endTime ?? a.timestamp) >= start);
+
+  return (
+    <>
+      <div className="bg-white rounded-lg shadow p-4 mb-6">
+        <div className="flex flex-wrap gap-2 items-center">
+          <TimeRangeSelector />
+        </div>
+      </div>
+
+      {slaReport ? (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-bold text-slate-800 mb-4">📋 SLAレポート</h2>
+          <p className="text-sm text-slate-600 mb-4">
+            契約: 下り{slaReport.plan.downloadMbps}Mbps / 上り{slaReport.plan.uploadMbps}Mbps、
+            最低保証: 下り{slaReport.plan.minDownloadMbps}Mbps、Ping {slaReport.plan.maxPingMs}ms以下
+          </p>
+          {slaReport.rolledUpSamples > 0 && (
+            <p className="text-xs text-amber-700 mb-4">
+              保持期間を過ぎて集計済みの{slaReport.rolledUpSamples}件は1回ごとの判定ができないため、達成率に含まれていません（対象は{slaReport.samples}件）
+            </p>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div className="bg-slate-50 rounded-lg p-4">
+              <div className="text-sm text-slate-600 mb-1">総合達成率</div>
+              <div className="text-2xl font-bold text-slate-800">{slaReport.compliance.overall}%</div>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-4">
+              <div className="text-sm text-slate-600 mb-1">最低保証速度 達成率</div>
+              <div className="text-2xl font-bold text-blue-600">{slaReport.compliance.download}%</div>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-4">
+              <div className="text-sm text-slate-600 mb-1">Ping 達成率</div>
+              <div className="text-2xl font-bold text-orange-600">{slaReport.compliance.ping}%</div>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-4">
+              <div className="text-sm text-slate-600 mb-1">契約速度比（下り平均）</div>
+              <div className="text-2xl font-bold text-slate-800">{slaReport.contractedRatio.download}%</div>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <div>
+              <h3 className="font-semibold text-slate-700 mb-2">達成率が低い時間</h3>
+              <ul className="space-y-1 text-slate-600">
+                {slaReport.worstHours.map(hour => (
+                  <li key={hour.hour}>
+                    {String(hour.hour).padStart(2, '0')}:00台 — {hour.compliance}%（平均 {hour.avgDownload}Mbps、{hour.count}件）
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <h3 className="font-semibold text-slate-700 mb-2">しきい値を下回った最長期間</h3>
+              <ul className="space-y-1 text-slate-600">
+                {slaReport.longestStreaks.map(streak => (
+                  <li key={streak.start}>
+                    {new Date(streak.start).toLocaleString('ja-JP')} 〜 {new Date(streak.end).toLocaleString('ja-JP')}（{streak.samples}件連続）
+                    {annotationsDuring(streak.start, streak.end).map(annotation => (
+                      <span key={annotation.id} className="block text-xs text-slate-500">📝 {annotation.label}</span>
+                    ))}
+                  </li>
+                ))}
+                {slaReport.longestStreaks.length === 0 && <li>なし</li>}
+              </ul>
+            </div>
+          </div>
+        </div>
+      ) : !isLoading && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6 text-sm text-slate-600">
+          契約プランが未設定のため、SLAレポートはありません（monitor/config.json の plan を設定してください）
+        </div>
+      )}
+
+      {outageReport && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-bold text-slate-800 mb-4">🔌 障害の一覧</h2>
+          <p className="text-sm text-slate-600 mb-4">
+            可用性 {outageReport.availability}% / ダウンタイム {formatDuration(outageReport.totalDowntimeMs)}
+          </p>
+          {outageReport.outages.length === 0 ? (
+            <p className="text-sm text-slate-600">この期間に障害はありません</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-2">開始</th>
+                  <th className="py-2">終了</th>
+                  <th className="py-2 text-right">失敗</th>
+                  <th className="py-2 pl-4">最後のエラー</th>
+                </tr>
+              </thead>
+              <tbody>
+                {outageReport.outages.map(outage => (
+                  <tr key={outage.start} className="border-b border-slate-100">
+                    <td className="py-2 text-slate-800">{new Date(outage.start).toLocaleString('ja-JP')}</td>
+                    <td className="py-2 text-slate-800">
+                      {outage.end
+                        ? `${new Date(outage.end).toLocaleString('ja-JP')}（${formatDuration(new Date(outage.end).getTime() - new Date(outage.start).getTime())}）`
+                        : '継続中'}
+                    </td>
+                    <td className="py-2 text-right text-slate-800">{outage.failures}回</td>
+                    <td className="py-2 pl-4 text-slate-600">{outage.lastMessage}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
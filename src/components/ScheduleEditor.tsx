@@ -0,0 +1,147 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import type { ScheduleWindow, SchedulePreview } from '../types/speed';
+
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+interface ScheduleEditorProps {
+  intervalMinutes: number;
+  windows: ScheduleWindow[];
+  onChange: (windows: ScheduleWindow[]) => void;
+}
+
+// 保存前の編集内容で次回以降の計測予定を計算する
+const fetchSchedulePreview = async (intervalMinutes: number, windows: ScheduleWindow[]): Promise<SchedulePreview> => {
+  const response = await fetch('http://localhost:3001/api/schedule/preview?count=5', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ intervalMinutes, schedule: windows }),
+  });
+  if (!response.ok) throw new Error('Failed to fetch schedule preview');
+  return response.json();
+};
+
+export default function ScheduleEditor({ intervalMinutes, windows, onChange }: ScheduleEditorProps) {
+  const { data: preview, isError } = useQuery({
+    queryKey: ['schedulePreview', intervalMinutes, windows],
+    queryFn: () => fetchSchedulePreview(intervalMinutes, windows),
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+
+  const update = (index: number, patch: Partial<ScheduleWindow>) => {
+    onChange(windows.map((window, i) => i === index ? { ...window, ...patch } : window));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = windows[index].days ?? [];
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b);
+    update(index, { days: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div>
+      <div className="space-y-3">
+        {windows.map((window, index) => (
+          <div key={index} className="border border-slate-200 rounded-lg p-3 text-sm">
+            <div className="flex flex-wrap items-center gap-1 mb-2">
+              {WEEKDAYS.map((label, day) => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleDay(index, day)}
+                  className={`w-7 h-7 rounded-full text-xs ${
+                    window.days?.includes(day) ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+              <span className="text-xs text-slate-500 ml-1">{window.days ? '' : '毎日'}</span>
+              <button
+                type="button"
+                onClick={() => onChange(windows.filter((_, i) => i !== index))}
+                className="ml-auto text-slate-400 hover:text-red-600"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="time"
+                value={window.start}
+                onChange={(e) => update(index, { start: e.target.value })}
+                className="px-2 py-1 border border-slate-300 rounded"
+              />
+              <span className="text-slate-600">〜</span>
+              <input
+                type="time"
+                value={window.end}
+                onChange={(e) => update(index, { end: e.target.value })}
+                className="px-2 py-1 border border-slate-300 rounded"
+              />
+              <label className="flex items-center gap-1 text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={window.skip === true}
+                  onChange={(e) => update(index, e.target.checked
+                    ? { skip: true, intervalMinutes: undefined, jitterMinutes: undefined }
+                    : { skip: undefined, intervalMinutes: intervalMinutes })}
+                />
+                計測しない
+              </label>
+              {!window.skip && (
+                <>
+                  <input
+                    type="number"
+                    min="1"
+                    max="1440"
+                    value={window.intervalMinutes ?? ''}
+                    onChange={(e) => update(index, { intervalMinutes: parseInt(e.target.value) || undefined })}
+                    className="w-20 px-2 py-1 border border-slate-300 rounded"
+                  />
+                  <span className="text-slate-600">分間隔</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={window.jitterMinutes ?? ''}
+                    onChange={(e) => update(index, { jitterMinutes: parseInt(e.target.value) || undefined })}
+                    placeholder="0"
+                    className="w-16 px-2 py-1 border border-slate-300 rounded"
+                  />
+                  <span className="text-slate-600">分までずらす</span>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange([...windows, { start: '20:00', end: '00:00', intervalMinutes: 10, jitterMinutes: 2 }])}
+        className="mt-3 text-sm text-blue-600 hover:text-blue-700"
+      >
+        ＋ 時間帯を追加
+      </button>
+      <p className="text-xs text-slate-500 mt-1">
+        上にある時間帯ほど優先されます。どれにも当てはまらない時間は基本の間隔で計測します
+      </p>
+
+      <div className="mt-4 bg-slate-50 rounded-lg p-3 text-sm">
+        <div className="font-medium text-slate-700 mb-1">次回以降の計測予定</div>
+        {isError ? (
+          <p className="text-red-600">設定内容を確認してください（時刻・間隔・ずらす分数）</p>
+        ) : preview && (
+          <>
+            <ul className="text-slate-600">
+              {preview.runs.map(run => (
+                <li key={run}>{new Date(run).toLocaleString('ja-JP', { weekday: 'short', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })}</li>
+              ))}
+              {preview.runs.length === 0 && <li>計測予定がありません</li>}
+            </ul>
+            <p className="text-xs text-slate-500 mt-1">1日あたり約{preview.runsPerDay}回（約{Math.round(preview.runsPerDay * 150)}MB/日）</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useServerEvents } from '../hooks/useServerEvents';
+import ScheduleEditor from './ScheduleEditor';
+import TimeSlotEditor from './TimeSlotEditor';
+import { TIME_SLOTS } from '../../shared/timeslots';
+import type { Config, MeasurementMethod, ScheduleWindow, TimeSlot } from '../types/speed';
+
+export const METHOD_LABELS: Record<MeasurementMethod, string> = {
+  ookla: 'Ookla Speedtest',
+  netflix: 'Netflix (fast.com)',
+  selfhosted: 'Self-hosted (LAN)',
+};
+
+const fetchConfig = async (): Promise<Config> => {
+  const response = await fetch('http://localhost:3001/api/config');
+  if (!response.ok) throw new Error('Failed to fetch config');
+  return response.json();
+};
+
+const updateConfig = async (config: Partial<Config>): Promise<Config> => {
+  const response = await fetch('http://localhost:3001/api/config', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(config),
+  });
+  if (!response.ok) throw new Error('Failed to update config');
+  return response.json();
+};
+
+// 計測スケジュール・計測方式・時間帯の区切り・データ保持の設定
+export default function Settings() {
+  const [intervalInput, setIntervalInput] = useState('');
+  const [methodInput, setMethodInput] = useState<MeasurementMethod | ''>('');
+  const [rawDaysInput, setRawDaysInput] = useState('');
+  const [hourlyMonthsInput, setHourlyMonthsInput] = useState('');
+  // 編集中の時間帯ルール・時間帯の区切り（null は未編集で、現在の設定を表示する）
+  const [scheduleDraft, setScheduleDraft] = useState<ScheduleWindow[] | null>(null);
+  const [slotsDraft, setSlotsDraft] = useState<TimeSlot[] | null>(null);
+  const queryClient = useQueryClient();
+
+  const { connected } = useServerEvents();
+  const { data: config } = useQuery({
+    queryKey: ['config'],
+    queryFn: fetchConfig,
+    refetchInterval: connected ? false : 30000,
+  });
+  const schedule = scheduleDraft ?? config?.schedule ?? [];
+  const timeSlots = slotsDraft ?? config?.timeSlots ?? TIME_SLOTS;
+
+  const mutation = useMutation({
+    mutationFn: updateConfig,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['config'] });
+      setScheduleDraft(null);
+      setSlotsDraft(null);
+      setIntervalInput('');
+      setMethodInput('');
+      setRawDaysInput('');
+      setHourlyMonthsInput('');
+    },
+  });
+
+  const handleUpdate = () => {
+    const update: Partial<Config> = {};
+    const interval = parseInt(intervalInput);
+    if (interval >= 1 && interval <= 1440) {
+      update.intervalMinutes = interval;
+    }
+    if (scheduleDraft !== null && JSON.stringify(scheduleDraft) !== JSON.stringify(config?.schedule ?? [])) {
+      update.schedule = scheduleDraft;
+    }
+    if (slotsDraft !== null && JSON.stringify(slotsDraft) !== JSON.stringify(config?.timeSlots ?? TIME_SLOTS)) {
+      update.timeSlots = slotsDraft;
+    }
+    if (methodInput) {
+      update.method = methodInput;
+    }
+    const rawDays = parseInt(rawDaysInput);
+    const hourlyMonths = parseInt(hourlyMonthsInput);
+    if ((rawDays >= 1 && rawDays <= 3650) || (hourlyMonths >= 0 && hourlyMonths <= 120)) {
+      update.retention = {
+        rawDays: rawDays >= 1 && rawDays <= 3650 ? rawDays : config?.retention?.rawDays ?? 7,
+        hourlyMonths: hourlyMonths >= 0 && hourlyMonths <= 120 ? hourlyMonths : config?.retention?.hourlyMonths ?? 12,
+      };
+    }
+    if (Object.keys(update).length > 0) {
+      mutation.mutate(update);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 max-w-2xl">
+      <h2 className="text-2xl font-bold text-slate-800 mb-4">⚙️ 設定</h2>
+      <p className="text-sm text-slate-600 mb-4">
+        現在の設定: <span className="font-semibold">{config?.intervalMinutes || 30}分間隔</span>
+        {' / '}
+        <span className="font-semibold">{METHOD_LABELS[config?.method || 'ookla']}</span>
+        {config?.schedule?.length ? `（時間帯ルール${config.schedule.length}件）` : ''}
+      </p>
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-slate-700 mb-2">
+          基本の間隔（分）
+        </label>
+        <input
+          type="number"
+          min="1"
+          max="1440"
+          value={intervalInput}
+          onChange={(e) => setIntervalInput(e.target.value)}
+          placeholder="例: 30"
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="text-xs text-slate-500 mt-1">1〜1440分の範囲で設定できます</p>
+      </div>
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-slate-700 mb-2">
+          曜日・時間帯ごとの間隔
+        </label>
+        <ScheduleEditor
+          intervalMinutes={parseInt(intervalInput) >= 1 && parseInt(intervalInput) <= 1440 ? parseInt(intervalInput) : config?.intervalMinutes || 30}
+          windows={schedule}
+          onChange={setScheduleDraft}
+        />
+      </div>
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-slate-700 mb-2">
+          時間帯の区切り
+        </label>
+        <TimeSlotEditor slots={timeSlots} onChange={setSlotsDraft} />
+      </div>
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-slate-700 mb-2">
+          計測方式
+        </label>
+        <select
+          value={methodInput || config?.method || 'ookla'}
+          onChange={(e) => setMethodInput(e.target.value as MeasurementMethod)}
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(METHOD_LABELS) as MeasurementMethod[]).map(method => (
+            <option key={method} value={method}>{METHOD_LABELS[method]}</option>
+          ))}
+        </select>
+        <p className="text-xs text-slate-500 mt-1">失敗時は他の方式に自動で切り替わります</p>
+      </div>
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-slate-700 mb-2">
+          データ保持
+        </label>
+        <div className="flex gap-3">
+          <input
+            type="number"
+            min="1"
+            max="3650"
+            value={rawDaysInput}
+            onChange={(e) => setRawDaysInput(e.target.value)}
+            placeholder={`生データ: ${config?.retention?.rawDays ?? 7}日`}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="number"
+            min="0"
+            max="120"
+            value={hourlyMonthsInput}
+            onChange={(e) => setHourlyMonthsInput(e.target.value)}
+            placeholder={`1時間集計: ${config?.retention?.hourlyMonths ?? 12}ヶ月`}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <p className="text-xs text-slate-500 mt-1">期間を過ぎたデータは1時間集計 → 日次集計（無期限）にまとめられます</p>
+      </div>
+      <div className="flex gap-3">
+        <button
+          onClick={() => {
+            setScheduleDraft(null);
+            setSlotsDraft(null);
+            setIntervalInput('');
+            setMethodInput('');
+            setRawDaysInput('');
+            setHourlyMonthsInput('');
+          }}
+          className="flex-1 px-4 py-2 bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 transition"
+        >
+          元に戻す
+        </button>
+        <button
+          onClick={handleUpdate}
+          disabled={mutation.isPending}
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+        >
+          {mutation.isPending ? '更新中...' : '更新'}
+        </button>
+      </div>
+      {mutation.isError && (
+        <p className="text-red-600 text-sm mt-3">エラーが発生しました</p>
+      )}
+      {mutation.isSuccess && (
+        <p className="text-green-600 text-sm mt-3">✓ 設定を更新しました（すぐに反映されます）</p>
+      )}
+    </div>
+  );
+}
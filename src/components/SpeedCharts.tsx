@@ -0,0 +1,388 @@
+import { useState, useMemo } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceArea, ReferenceDot, ReferenceLine, type DotProps } from 'recharts';
+import { ANNOTATION_CATEGORIES, type AnnotationDraft } from './AnnotationForm';
+import type { SpeedData, SpeedBucket, OutageReport, AnomalyReport, AnomalyMetric, Annotation } from '../types/speed';
+
+// グラフの1点（集計済みバケットは平均値）
+export interface ChartPoint {
+  time: number;
+  下り: number;
+  上り: number;
+  Ping: number;
+  Jitter: number;
+  manual?: boolean;
+}
+
+// 比較モードの1期間分の系列。start（期間の開始、'all' では最初の点）からの経過時間で揃えて重ねる
+export interface CompareSeries {
+  start: number;
+  points: ChartPoint[];
+}
+
+export const pointOfMeasurement = (d: SpeedData): ChartPoint => ({
+  time: new Date(d.timestamp).getTime(),
+  下り: d.download,
+  上り: d.upload,
+  Ping: d.ping,
+  Jitter: d.jitter,
+  manual: d.manual,
+});
+
+export const pointOfBucket = (b: SpeedBucket): ChartPoint => ({
+  time: new Date(b.timestamp).getTime(),
+  下り: b.download.avg,
+  上り: b.upload.avg,
+  Ping: b.ping.avg,
+  Jitter: b.jitter.avg,
+});
+
+export const formatChartTime = (timestamp: string | number): string =>
+  new Date(timestamp).toLocaleString('ja-JP', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Recharts が dot の描画関数に渡す props（点の座標に加えて key とその点のデータが入る）
+type ManualDotProps = DotProps & { key?: string; payload?: ChartPoint };
+
+// 手動計測の点だけをグラフ上で強調する
+const renderManualDot = (props: ManualDotProps) => {
+  const { key, cx, cy, payload } = props;
+  if (!payload?.manual || cx == null || cy == null) return <g key={key} />;
+  return <circle key={key} cx={cx} cy={cy} r={5} fill="#fff" stroke="#f59e0b" strokeWidth={2} />;
+};
+
+const CHART_COLORS = { 下り: '#2563eb', 上り: '#16a34a', Ping: '#ea580c', Jitter: '#9333ea' };
+
+// 比較グラフの横軸（期間の開始からの経過時間）
+const formatElapsed = (ms: number): string => {
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  const days = Math.floor(hours / 24);
+  return days > 0 ? `+${days}日${hours % 24}時間` : `+${hours}時間`;
+};
+
+interface SpeedChartsProps {
+  points: ChartPoint[];
+  // 生データ（集計表示では空）。クリックした点の詳細と負荷時レイテンシのグラフに使う
+  measurements: SpeedData[];
+  // 生データを表示中か（集計済みバケットの点は詳細ページへ移動できない）
+  clickable: boolean;
+  manualCount: number;
+  // 比較モードの2つの期間（before → after）
+  compare: { labels: [string, string]; series: CompareSeries[] } | null;
+  outageReport?: OutageReport;
+  anomalyReport?: AnomalyReport;
+  annotations: Annotation[];
+  // グラフをクリックして出来事の記録フォームを開く
+  onAnnotate: (draft: AnnotationDraft) => void;
+}
+
+// 通信速度・レイテンシ・負荷時レイテンシのグラフ（障害・出来事・異常の印付き）
+export default function SpeedCharts({
+  points,
+  measurements,
+  clickable,
+  manualCount,
+  compare,
+  outageReport,
+  anomalyReport,
+  annotations,
+  onAnnotate,
+}: SpeedChartsProps) {
+  const navigate = useNavigate();
+  // 出来事の記録モード（グラフをクリックした時刻で記録フォームを開く）
+  const [annotating, setAnnotating] = useState(false);
+
+  // 比較モードでは2つの期間を開始からの経過時間で揃えて重ねる
+  const compareSeries = compare?.series;
+  const compareChartData = useMemo(() => {
+    if (!compareSeries) return [];
+    return compareSeries
+      .flatMap(({ start, points }, index) => {
+        const suffix = index === 0 ? 'before' : 'after';
+        return points.map(point => ({
+          elapsed: point.time - start,
+          [`下り:${suffix}`]: point.下り,
+          [`上り:${suffix}`]: point.上り,
+          [`Ping:${suffix}`]: point.Ping,
+          [`Jitter:${suffix}`]: point.Jitter,
+        }));
+      })
+      .sort((a, b) => a.elapsed - b.elapsed);
+  }, [compareSeries]);
+
+  // 比較グラフの線（前の期間は破線）
+  const renderCompareLines = (metrics: (keyof typeof CHART_COLORS)[]) => compare && metrics.flatMap(metric => (
+    compare.labels.map((label, index) => (
+      <Line
+        key={`${metric}-${index}`}
+        type="monotone"
+        dataKey={`${metric}:${index === 0 ? 'before' : 'after'}`}
+        name={`${metric}（${label}）`}
+        stroke={CHART_COLORS[metric]}
+        strokeWidth={2}
+        strokeDasharray={index === 0 ? '5 5' : undefined}
+        strokeOpacity={index === 0 ? 0.6 : 1}
+        dot={false}
+        connectNulls
+      />
+    ))
+  ));
+
+  // パケットロスと負荷時レイテンシ（Ookla の生データのみ）
+  const qualityChartData = useMemo(() => {
+    return measurements
+      .filter(d => d.packetLoss !== undefined || d.downloadLatency !== undefined || d.uploadLatency !== undefined)
+      .map(d => ({
+        time: new Date(d.timestamp).getTime(),
+        無負荷: d.ping,
+        '負荷時（下り）': d.downloadLatency,
+        '負荷時（上り）': d.uploadLatency,
+        パケットロス: d.packetLoss,
+      }));
+  }, [measurements]);
+
+  // クリックした点の時刻の計測の詳細ページへ移動する（集計表示の点は対象外）
+  // 記録モード中はその時刻で出来事の記録フォームを開く
+  const handleChartClick = (state: { activeLabel?: string | number } | null) => {
+    const time = Number(state?.activeLabel);
+    if (annotating) {
+      if (!isNaN(time)) {
+        onAnnotate({ timestamp: new Date(time).toISOString() });
+        setAnnotating(false);
+      }
+      return;
+    }
+    const measurement = measurements.find(d => new Date(d.timestamp).getTime() === time);
+    if (measurement) {
+      navigate({
+        to: '/measurements/$timestamp',
+        params: { timestamp: measurement.timestamp },
+        search: (prev) => ({ ...prev, probe: measurement.probe }),
+      });
+    }
+  };
+  const chartClickHandler = annotating || clickable ? handleChartClick : undefined;
+
+  // グラフ上で網掛けする障害期間（継続中は現在時刻まで）
+  const outageAreas = useMemo(() => {
+    return (outageReport?.outages ?? []).map(outage => ({
+      x1: new Date(outage.start).getTime(),
+      x2: outage.end ? new Date(outage.end).getTime() : Date.now(),
+    }));
+  }, [outageReport]);
+
+  // グラフ上の出来事（期間のあるものは網掛け、それ以外は縦線）
+  const renderAnnotations = () => annotations.map(annotation => {
+    const { color } = ANNOTATION_CATEGORIES[annotation.category];
+    const label = { value: annotation.label, position: 'insideTopLeft' as const, fontSize: 11, fill: color };
+    return annotation.endTime ? (
+      <ReferenceArea
+        key={annotation.id}
+        x1={new Date(annotation.timestamp).getTime()}
+        x2={new Date(annotation.endTime).getTime()}
+        fill={color}
+        fillOpacity={0.1}
+        label={label}
+        ifOverflow="hidden"
+      />
+    ) : (
+      <ReferenceLine
+        key={annotation.id}
+        x={new Date(annotation.timestamp).getTime()}
+        stroke={color}
+        strokeDasharray="4 2"
+        label={label}
+        ifOverflow="hidden"
+      />
+    );
+  });
+
+  // グラフ上の異常の印（続いた期間は網掛け、個々の計測は点）
+  const renderAnomalies = (metrics: AnomalyMetric[]) => [
+    ...(anomalyReport?.periods ?? []).filter(p => metrics.includes(p.metric)).map(p => (
+      <ReferenceArea
+        key={`${p.metric}-${p.start}`}
+        x1={new Date(p.start).getTime()}
+        x2={new Date(p.end).getTime()}
+        fill="#f59e0b"
+        fillOpacity={0.12}
+        ifOverflow="hidden"
+      />
+    )),
+    ...(anomalyReport?.anomalies ?? []).filter(a => metrics.includes(a.metric)).map(a => (
+      <ReferenceDot
+        key={`${a.metric}-${a.timestamp}`}
+        x={new Date(a.timestamp).getTime()}
+        y={a.value}
+        r={5}
+        fill="#f59e0b"
+        stroke="#b45309"
+        ifOverflow="hidden"
+      />
+    )),
+  ];
+
+  return (
+    <>
+      {/* 下り・上り速度グラフ */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex items-center justify-between gap-2 mb-4">
+          <h2 className="text-xl font-bold text-slate-800">通信速度（Mbps）</h2>
+          {!compare && (
+            <button
+              onClick={() => setAnnotating(!annotating)}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition ${
+                annotating ? 'bg-amber-500 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+              }`}
+            >
+              {annotating ? 'グラフをクリックして時刻を選択（キャンセル）' : '📝 出来事を記録'}
+            </button>
+          )}
+        </div>
+        {compare ? (
+          <p className="text-xs text-slate-500 -mt-3 mb-2">
+            横軸はそれぞれの期間の開始からの経過時間です（破線が{compare.labels[0]}）
+          </p>
+        ) : clickable && (
+          <p className="text-xs text-slate-500 -mt-3 mb-2">
+            {manualCount > 0 && '○ は手動計測。'}点をクリックすると計測の詳細を表示します
+          </p>
+        )}
+        <ResponsiveContainer width="100%" height={300}>
+          {compare ? (
+            <LineChart data={compareChartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="elapsed"
+                type="number"
+                domain={[0, 'dataMax']}
+                tickFormatter={formatElapsed}
+                tick={{ fontSize: 12 }}
+                angle={-45}
+                textAnchor="end"
+                height={80}
+              />
+              <YAxis />
+              <Tooltip labelFormatter={formatElapsed} />
+              <Legend />
+              {renderCompareLines(['下り', '上り'])}
+            </LineChart>
+          ) : (
+            <LineChart data={points} onClick={chartClickHandler} className={chartClickHandler ? 'cursor-pointer' : undefined}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatChartTime}
+                tick={{ fontSize: 12 }}
+                angle={-45}
+                textAnchor="end"
+                height={80}
+              />
+              <YAxis />
+              <Tooltip labelFormatter={formatChartTime} />
+              <Legend />
+              {outageAreas.map(area => (
+                <ReferenceArea key={area.x1} x1={area.x1} x2={area.x2} fill="#dc2626" fillOpacity={0.15} ifOverflow="hidden" />
+              ))}
+              {renderAnnotations()}
+              {renderAnomalies(['download', 'upload'])}
+              <Line type="monotone" dataKey="下り" stroke="#2563eb" strokeWidth={2} dot={renderManualDot} />
+              <Line type="monotone" dataKey="上り" stroke="#16a34a" strokeWidth={2} dot={false} />
+            </LineChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+
+      <div className={`grid grid-cols-1 gap-6 ${qualityChartData.length > 0 ? 'lg:grid-cols-2' : ''}`}>
+        {/* Ping・Jitterグラフ */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-bold text-slate-800 mb-4">レイテンシ（ms）</h2>
+          <ResponsiveContainer width="100%" height={300}>
+            {compare ? (
+              <LineChart data={compareChartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="elapsed"
+                  type="number"
+                  domain={[0, 'dataMax']}
+                  tickFormatter={formatElapsed}
+                  tick={{ fontSize: 12 }}
+                  angle={-45}
+                  textAnchor="end"
+                  height={80}
+                />
+                <YAxis />
+                <Tooltip labelFormatter={formatElapsed} />
+                <Legend />
+                {renderCompareLines(['Ping', 'Jitter'])}
+              </LineChart>
+            ) : (
+              <LineChart data={points} onClick={chartClickHandler} className={chartClickHandler ? 'cursor-pointer' : undefined}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={formatChartTime}
+                  tick={{ fontSize: 12 }}
+                  angle={-45}
+                  textAnchor="end"
+                  height={80}
+                />
+                <YAxis />
+                <Tooltip labelFormatter={formatChartTime} />
+                <Legend />
+                {outageAreas.map(area => (
+                  <ReferenceArea key={area.x1} x1={area.x1} x2={area.x2} fill="#dc2626" fillOpacity={0.15} ifOverflow="hidden" />
+                ))}
+                {renderAnnotations()}
+                {renderAnomalies(['ping'])}
+                <Line type="monotone" dataKey="Ping" stroke="#ea580c" strokeWidth={2} dot={renderManualDot} />
+                <Line type="monotone" dataKey="Jitter" stroke="#9333ea" strokeWidth={2} dot={false} />
+              </LineChart>
+            )}
+          </ResponsiveContainer>
+        </div>
+
+        {/* パケットロス・負荷時レイテンシグラフ */}
+        {qualityChartData.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-bold text-slate-800 mb-4">負荷時レイテンシ（ms）/ パケットロス（%）</h2>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={qualityChartData} onClick={handleChartClick} className="cursor-pointer">
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={formatChartTime}
+                  tick={{ fontSize: 12 }}
+                  angle={-45}
+                  textAnchor="end"
+                  height={80}
+                />
+                <YAxis yAxisId="latency" />
+                <YAxis yAxisId="loss" orientation="right" domain={[0, 'auto']} />
+                <Tooltip labelFormatter={formatChartTime} />
+                <Legend />
+                <Line yAxisId="latency" type="monotone" dataKey="無負荷" stroke="#ea580c" strokeWidth={1} dot={false} />
+                <Line yAxisId="latency" type="monotone" dataKey="負荷時（下り）" stroke="#2563eb" strokeWidth={2} dot={false} connectNulls />
+                <Line yAxisId="latency" type="monotone" dataKey="負荷時（上り）" stroke="#16a34a" strokeWidth={2} dot={false} connectNulls />
+                <Line yAxisId="loss" type="stepAfter" dataKey="パケットロス" stroke="#dc2626" strokeWidth={1} dot={false} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,103 @@
+import DeltaBadge from './DeltaBadge';
+import type { Distribution } from '../../shared/stats';
+import type { RangeSummary, RangeComparison, MetricComparison } from '../types/speed';
+
+// 2つの期間の中央値を並べ、差と有意差の有無を添える
+const CompareStatCard = ({ title, unit, color, labels, value, higherIsBetter }: {
+  title: string;
+  unit: string;
+  color: string;
+  labels: [string, string];
+  value: MetricComparison;
+  higherIsBetter: boolean;
+}) => (
+  <div className="bg-white rounded-lg shadow p-6">
+    <div className="text-sm text-slate-600 mb-1">{title}（中央値）</div>
+    <div className="flex items-end gap-3">
+      <div>
+        <div className="text-xs text-slate-500">{labels[0]}</div>
+        <div className="text-2xl font-bold text-slate-400">{value.before.median}</div>
+      </div>
+      <span className="text-slate-400 pb-1">→</span>
+      <div>
+        <div className="text-xs text-slate-500">{labels[1]}</div>
+        <div className={`text-2xl font-bold ${color}`}>{value.after.median}</div>
+      </div>
+    </div>
+    <div className="text-xs text-slate-500">{unit}</div>
+    <div className="mt-2">
+      <DeltaBadge comparison={value.comparison} unit={unit} higherIsBetter={higherIsBetter} />
+    </div>
+    <div className="text-xs text-slate-500 mt-1 space-y-0.5">
+      <div>
+        {value.comparison.pValue === null
+          ? '件数が少ないため有意差は判定できません'
+          : value.comparison.significant ? `有意な差あり（p = ${value.comparison.pValue}）` : `誤差の範囲（p = ${value.comparison.pValue}）`}
+      </div>
+      <div>{value.before.count}件 / {value.after.count}件</div>
+    </div>
+  </div>
+);
+
+// 中央値を大きく表示し、平均・ばらつき・p5〜p95 を添える
+const StatCard = ({ title, unit, color, stats, below }: {
+  title: string;
+  unit: string;
+  color: string;
+  stats: Distribution;
+  below?: { threshold: number; percent: number };
+}) => (
+  <div className="bg-white rounded-lg shadow p-6">
+    <div className="text-sm text-slate-600 mb-1">{title}（中央値）</div>
+    <div className={`text-3xl font-bold ${color}`}>{stats.median}</div>
+    <div className="text-xs text-slate-500">{unit}</div>
+    <div className="text-xs text-slate-500 mt-2 space-y-0.5">
+      <div>平均 {stats.mean} / σ {stats.stddev}</div>
+      <div>p5〜p95: {stats.p5}〜{stats.p95}</div>
+      {below && <div>{below.threshold}{unit}未満: <span className="font-semibold text-slate-700">{below.percent}%</span></div>}
+    </div>
+  </div>
+);
+
+interface StatCardsProps {
+  summary: RangeSummary;
+  belowMbps: number;
+  // 比較モードでは2つの期間の中央値と差を表示する
+  comparison: RangeComparison | null;
+  labels: [string, string] | null;
+}
+
+// 下り・上り・Ping・Jitter の統計カード
+export default function StatCards({ summary, belowMbps, comparison, labels }: StatCardsProps) {
+  if (comparison && labels) {
+    return (
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+        <CompareStatCard title="下り速度" unit="Mbps" color="text-blue-600" labels={labels} value={comparison.download} higherIsBetter />
+        <CompareStatCard title="上り速度" unit="Mbps" color="text-green-600" labels={labels} value={comparison.upload} higherIsBetter />
+        <CompareStatCard title="Ping" unit="ms" color="text-orange-600" labels={labels} value={comparison.ping} higherIsBetter={false} />
+        <CompareStatCard title="Jitter" unit="ms" color="text-purple-600" labels={labels} value={comparison.jitter} higherIsBetter={false} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+      <StatCard
+        title="下り速度"
+        unit="Mbps"
+        color="text-blue-600"
+        stats={summary.download}
+        below={{ threshold: belowMbps, percent: summary.below?.download ?? 0 }}
+      />
+      <StatCard
+        title="上り速度"
+        unit="Mbps"
+        color="text-green-600"
+        stats={summary.upload}
+        below={{ threshold: belowMbps, percent: summary.below?.upload ?? 0 }}
+      />
+      <StatCard title="Ping" unit="ms" color="text-orange-600" stats={summary.ping} />
+      <StatCard title="Jitter" unit="ms" color="text-purple-600" stats={summary.jitter} />
+    </div>
+  );
+}
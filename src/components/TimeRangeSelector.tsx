@@ -0,0 +1,63 @@
+import { useTimeRange } from '../hooks/useTimeRange';
+import type { TimeRange } from '../types/speed';
+
+const RANGE_LABELS: [TimeRange, string][] = [
+  ['24h', '24時間'],
+  ['7d', '7日間'],
+  ['all', '全期間'],
+];
+
+interface TimeRangeSelectorProps {
+  // 期間指定時に表示する件数
+  count?: number;
+}
+
+// 表示範囲のボタンと期間指定の日付（選択はURLの検索パラメータに保存される）
+export default function TimeRangeSelector({ count }: TimeRangeSelectorProps) {
+  const { timeRange, customStartDate, customEndDate, setTimeRange, setCustomStartDate, setCustomEndDate } = useTimeRange();
+
+  const buttonClass = (range: TimeRange) => `px-4 py-2 rounded-lg font-medium transition ${
+    timeRange === range
+      ? 'bg-blue-600 text-white'
+      : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+  }`;
+
+  return (
+    <>
+      {RANGE_LABELS.map(([range, label]) => (
+        <button key={range} onClick={() => setTimeRange(range)} className={buttonClass(range)}>
+          {label}
+        </button>
+      ))}
+
+      <div className="h-6 w-px bg-slate-300 mx-2"></div>
+
+      <button onClick={() => setTimeRange('custom')} className={buttonClass('custom')}>
+        📅 期間指定
+      </button>
+
+      {timeRange === 'custom' && (
+        <>
+          <input
+            type="date"
+            value={customStartDate}
+            onChange={(e) => setCustomStartDate(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span className="text-slate-600">〜</span>
+          <input
+            type="date"
+            value={customEndDate}
+            onChange={(e) => setCustomEndDate(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {customStartDate && customEndDate && count !== undefined && (
+            <span className="text-sm text-slate-600">
+              （{count}件）
+            </span>
+          )}
+        </>
+      )}
+    </>
+  );
+}
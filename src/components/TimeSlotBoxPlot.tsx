@@ -0,0 +1,52 @@
+import type { Distribution } from '../../shared/stats';
+
+interface TimeSlotBoxPlotProps {
+  slots: { slot: string; distribution: Distribution }[];
+  unit: string;
+  color: string;
+}
+
+// 時間帯ごとの箱ひげ図（ひげは p5〜p95、箱は p25〜p75、線は中央値）
+export default function TimeSlotBoxPlot({ slots, unit, color }: TimeSlotBoxPlotProps) {
+  const measured = slots.filter(s => s.distribution.count > 0);
+  if (measured.length === 0) {
+    return <p className="py-6 text-center text-sm text-slate-500">データがありません</p>;
+  }
+
+  const min = Math.min(...measured.map(s => s.distribution.p5));
+  const max = Math.max(...measured.map(s => s.distribution.p95));
+  const position = (value: number) => `${max > min ? (value - min) / (max - min) * 100 : 50}%`;
+  const width = (from: number, to: number) => `${max > min ? (to - from) / (max - min) * 100 : 0}%`;
+
+  return (
+    <div className="text-sm">
+      {slots.map(({ slot, distribution: d }) => (
+        <div key={slot} className="flex items-center gap-4 py-2 border-b border-slate-100">
+          <div className="w-40 shrink-0 font-medium text-slate-700">{slot}</div>
+          <div className="relative flex-1 h-6">
+            {d.count > 0 && (
+              <>
+                <div className="absolute top-1/2 h-px bg-slate-400" style={{ left: position(d.p5), width: width(d.p5, d.p95) }} />
+                <div className="absolute top-1 h-4 w-px bg-slate-400" style={{ left: position(d.p5) }} />
+                <div className="absolute top-1 h-4 w-px bg-slate-400" style={{ left: position(d.p95) }} />
+                <div
+                  className="absolute top-0 h-6 rounded border"
+                  style={{ left: position(d.p25), width: width(d.p25, d.p75), borderColor: color, backgroundColor: `${color}33` }}
+                />
+                <div className="absolute top-0 h-6 w-0.5" style={{ left: position(d.median), backgroundColor: color }} />
+              </>
+            )}
+          </div>
+          <div className="w-40 shrink-0 text-right text-slate-600">
+            {d.count > 0 ? `中央値 ${d.median} ${unit}` : '-'}
+            <span className="ml-2 text-xs text-slate-400">{d.count}件</span>
+          </div>
+        </div>
+      ))}
+      <div className="flex justify-between text-xs text-slate-500 mt-1 mx-44">
+        <span>{min} {unit}</span>
+        <span>{max} {unit}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import type { TimeSlot } from '../types/speed';
+import { TIME_SLOTS } from '../../shared/timeslots';
+
+interface TimeSlotEditorProps {
+  slots: TimeSlot[];
+  onChange: (slots: TimeSlot[]) => void;
+}
+
+// 終わりの時刻は次の区切りの開始時刻（最後は24時）から決める
+const withEnds = (slots: TimeSlot[]): TimeSlot[] =>
+  slots.map((slot, index) => ({ ...slot, end: index + 1 < slots.length ? slots[index + 1].start : 24 }));
+
+// 時間帯別テーブル・SLAレポート・異常検知で使う時間帯の区切りを編集する
+export default function TimeSlotEditor({ slots, onChange }: TimeSlotEditorProps) {
+  const update = (index: number, patch: Partial<TimeSlot>) => {
+    onChange(withEnds(slots.map((slot, i) => i === index ? { ...slot, ...patch } : slot)));
+  };
+
+  const add = () => {
+    const last = slots[slots.length - 1];
+    const start = Math.min(23, last.start + 1);
+    onChange(withEnds([...slots, { name: '新しい時間帯', start, end: 24 }]));
+  };
+
+  const valid = slots.every(slot => slot.name.trim() !== '' && slot.start < slot.end);
+
+  return (
+    <div>
+      <div className="space-y-2">
+        {slots.map((slot, index) => (
+          <div key={index} className="flex items-center gap-2 text-sm">
+            <input
+              type="number"
+              min="0"
+              max="23"
+              value={slot.start}
+              disabled={index === 0}
+              onChange={(e) => update(index, { start: parseInt(e.target.value) || 0 })}
+              className="w-16 px-2 py-1 border border-slate-300 rounded disabled:bg-slate-100"
+            />
+            <span className="w-14 text-slate-600">〜{slot.end}時</span>
+            <input
+              type="text"
+              value={slot.name}
+              onChange={(e) => update(index, { name: e.target.value })}
+              className="flex-1 px-2 py-1 border border-slate-300 rounded"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(withEnds(slots.filter((_, i) => i !== index)).map((s, i) => i === 0 ? { ...s, start: 0 } : s))}
+              disabled={slots.length === 1}
+              className="text-slate-400 hover:text-red-600 disabled:opacity-30"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-4 mt-3 text-sm">
+        <button type="button" onClick={add} className="text-blue-600 hover:text-blue-700">
+          ＋ 区切りを追加
+        </button>
+        <button type="button" onClick={() => onChange(TIME_SLOTS)} className="text-slate-600 hover:text-slate-800">
+          既定に戻す
+        </button>
+      </div>
+      {!valid && (
+        <p className="text-xs text-red-600 mt-1">開始時刻は上から順に大きくし、名前を入力してください</p>
+      )}
+      <p className="text-xs text-slate-500 mt-1">0時から24時までを上から順に区切ります</p>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { useTimeRange, toRangeWindow, toQueryString, type RangeWindow } from '../hooks/useTimeRange';
+import DeltaBadge from './DeltaBadge';
+import TimeSlotBoxPlot from './TimeSlotBoxPlot';
+import type { RangeSummary, RangeComparison, SlaReport, SummaryMetric } from '../types/speed';
+
+// 契約プラン未設定（404）の場合は null
+const fetchSlaReport = async (range: RangeWindow, probe?: string): Promise<SlaReport | null> => {
+  const query = toQueryString({ from: range.from, to: range.to, probe });
+  const response = await fetch(`http://localhost:3001/api/reports/sla?${query}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error('Failed to fetch SLA report');
+  return response.json();
+};
+
+interface TimeSlotStatsProps {
+  summary: RangeSummary;
+  // 比較モードでは時間帯ごとに2つの期間の中央値と差を表示する
+  comparison: RangeComparison | null;
+  labels: [string, string] | null;
+  // 選択中のプローブ（未指定なら全プローブ）
+  probe?: string;
+  refetchInterval: number | false;
+}
+
+// 時間帯別の速度（表 / 箱ひげ図）とSLA達成率
+export default function TimeSlotStats({ summary, comparison, labels, probe, refetchInterval }: TimeSlotStatsProps) {
+  const { rangeKey } = useTimeRange();
+  const [slotView, setSlotView] = useState<'table' | 'boxplot'>('table');
+  const [slotMetric, setSlotMetric] = useState<SummaryMetric>('download');
+
+  const { data: slaReport } = useQuery({
+    queryKey: ['slaReport', ...rangeKey, probe],
+    queryFn: () => fetchSlaReport(toRangeWindow(...rangeKey), probe),
+    refetchInterval,
+    placeholderData: keepPreviousData,
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <h2 className="text-xl font-bold text-slate-800 mr-auto">⏰ 時間帯別の速度</h2>
+        {slotView === 'boxplot' && (
+          <select
+            value={slotMetric}
+            onChange={(e) => setSlotMetric(e.target.value as typeof slotMetric)}
+            className="px-2 py-1 border border-slate-300 rounded-lg text-sm"
+          >
+            <option value="download">下り</option>
+            <option value="upload">上り</option>
+            <option value="ping">Ping</option>
+            <option value="jitter">Jitter</option>
+          </select>
+        )}
+        {(['table', 'boxplot'] as const).map(view => (
+          <button
+            key={view}
+            onClick={() => setSlotView(view)}
+            className={`px-3 py-1 rounded-lg text-sm font-medium transition ${
+              slotView === view ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            {view === 'table' ? '表' : '箱ひげ図'}
+          </button>
+        ))}
+      </div>
+      {slotView === 'boxplot' ? (
+        <TimeSlotBoxPlot
+          slots={summary.timeSlots.map(slot => ({ slot: slot.slot, distribution: slot[slotMetric] }))}
+          unit={slotMetric === 'download' || slotMetric === 'upload' ? 'Mbps' : 'ms'}
+          color={{ download: '#2563eb', upload: '#16a34a', ping: '#ea580c', jitter: '#9333ea' }[slotMetric]}
+        />
+      ) : (
+        <div className="overflow-x-auto">
+          <p className="text-xs text-slate-500 mb-2">
+            {comparison && labels
+              ? `中央値（${labels[0]} → ${labels[1]}）と差です。＊は有意な差（p < 0.05）`
+              : '上段が中央値、下段が p5〜p95 の範囲です'}
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b-2 border-slate-200">
+                <th className="text-left py-3 px-4 font-semibold text-slate-700">時間帯</th>
+                <th className="text-right py-3 px-4 font-semibold text-blue-600">下り (Mbps)</th>
+                <th className="text-right py-3 px-4 font-semibold text-green-600">上り (Mbps)</th>
+                <th className="text-right py-3 px-4 font-semibold text-orange-600">Ping (ms)</th>
+                <th className="text-right py-3 px-4 font-semibold text-purple-600">Jitter (ms)</th>
+                <th className="text-right py-3 px-4 font-semibold text-slate-600">測定回数</th>
+                {slaReport && (
+                  <th className="text-right py-3 px-4 font-semibold text-slate-600">SLA達成率</th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {summary.timeSlots.map((slot, index) => (
+                <tr key={index} className="border-b border-slate-100 hover:bg-slate-50">
+                  <td className="py-3 px-4 font-medium text-slate-700">{slot.slot}</td>
+                  {([
+                    ['download', 'text-blue-600'],
+                    ['upload', 'text-green-600'],
+                    ['ping', 'text-orange-600'],
+                    ['jitter', 'text-purple-600'],
+                  ] as const).map(([metric, color]) => (
+                    <td key={metric} className={`py-3 px-4 text-right ${color}`}>
+                      {comparison ? (
+                        comparison.timeSlots[index]?.count.every(count => count > 0) ? (
+                          <>
+                            <div className="font-semibold">
+                              {comparison.timeSlots[index][metric].before.median} → {comparison.timeSlots[index][metric].after.median}
+                            </div>
+                            <DeltaBadge
+                              comparison={comparison.timeSlots[index][metric].comparison}
+                              unit=""
+                              higherIsBetter={metric === 'download' || metric === 'upload'}
+                            />
+                          </>
+                        ) : '-'
+                      ) : slot.count > 0 ? (
+                        <>
+                          <div className="font-semibold">{slot[metric].median}</div>
+                          <div className="text-xs text-slate-500">{slot[metric].p5}〜{slot[metric].p95}</div>
+                        </>
+                      ) : '-'}
+                    </td>
+                  ))}
+                  <td className="py-3 px-4 text-right text-slate-600">
+                    {comparison ? comparison.timeSlots[index]?.count.join(' / ') : slot.count}
+                  </td>
+                  {slaReport && (
+                    <td className="py-3 px-4 text-right text-slate-600">
+                      {slaReport.timeSlots[index]?.compliance != null ? `${slaReport.timeSlots[index].compliance}%` : '-'}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { Config, MeasureJob } from '../types/speed';
+
+// 新しい計測結果に依存するクエリ
+const MEASUREMENT_QUERY_KEYS = ['speedData', 'speedBuckets', 'slaReport', 'outages', 'alertHistory', 'budget', 'probes', 'breakdown', 'anomalies', 'heatmap'];
+
+// APIサーバーのイベントストリームを購読し、TanStack Queryのキャッシュを更新する
+export function useServerEvents() {
+  const queryClient = useQueryClient();
+  const [measuring, setMeasuring] = useState(false);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    const source = new EventSource('http://localhost:3001/api/events');
+
+    const refreshMeasurements = () => {
+      for (const key of MEASUREMENT_QUERY_KEYS) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+    };
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+    source.addEventListener('measurement-started', () => setMeasuring(true));
+    source.addEventListener('measurement', () => {
+      setMeasuring(false);
+      refreshMeasurements();
+    });
+    source.addEventListener('measurement-failed', () => {
+      setMeasuring(false);
+      refreshMeasurements();
+    });
+    source.addEventListener('measure-job', (event) => {
+      const job: MeasureJob = JSON.parse((event as MessageEvent).data);
+      queryClient.setQueryData<MeasureJob>(['measureJob', job.id], previous => ({ ...previous, ...job }));
+    });
+    source.addEventListener('config-changed', (event) => {
+      queryClient.setQueryData<Config>(['config'], JSON.parse((event as MessageEvent).data));
+      queryClient.invalidateQueries({ queryKey: ['budget'] });
+    });
+    source.addEventListener('annotations-changed', () => {
+      queryClient.invalidateQueries({ queryKey: ['annotations'] });
+      queryClient.invalidateQueries({ queryKey: ['slaReport'] });
+    });
+
+    return () => source.close();
+  }, [queryClient]);
+
+  return { measuring, connected };
+}
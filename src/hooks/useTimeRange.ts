@@ -0,0 +1,96 @@
+import { useNavigate, useSearch } from '@tanstack/react-router';
+import type { TimeRange } from '../types/speed';
+
+// 表示範囲のURL検索パラメータ（ブックマーク・共有できるようにURLに持たせる）
+export interface RangeSearch {
+  // 省略時は 24h
+  range?: TimeRange;
+  // 期間指定の開始日・終了日（YYYY-MM-DD）
+  from?: string;
+  to?: string;
+}
+
+export interface RangeWindow {
+  from?: string;
+  to?: string;
+  bucket?: string;
+}
+
+const TIME_RANGES: TimeRange[] = ['24h', '7d', 'all', 'custom'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseDate = (value: unknown): string | undefined =>
+  typeof value === 'string' && DATE_PATTERN.test(value) ? value : undefined;
+
+// ルートの validateSearch 用（不正な値は無視して既定に戻す）
+export function parseRangeSearch(search: Record<string, unknown>): RangeSearch {
+  return {
+    range: TIME_RANGES.includes(search.range as TimeRange) ? search.range as TimeRange : undefined,
+    from: parseDate(search.from),
+    to: parseDate(search.to),
+  };
+}
+
+// 表示する時間範囲をAPIのクエリに変換（長期間はバケット集計でグラフを軽くする）
+export const toRangeWindow = (timeRange: TimeRange, customStartDate: string, customEndDate: string): RangeWindow => {
+  const now = Date.now();
+
+  switch (timeRange) {
+    case '24h':
+      return { from: new Date(now - 24 * 60 * 60 * 1000).toISOString() };
+    case '7d':
+      return { from: new Date(now - 7 * 24 * 60 * 60 * 1000).toISOString() };
+    case 'custom': {
+      if (!customStartDate || !customEndDate) break;
+      const start = new Date(customStartDate);
+      const end = new Date(customEndDate);
+      end.setHours(23, 59, 59, 999); // 終日を含める
+      return withBucket({ from: start.toISOString(), to: end.toISOString() });
+    }
+  }
+
+  return { bucket: '1h' };
+};
+
+// 期間の長さに応じた集計幅を付ける（7日以内は生データ、90日以内は1時間、それ以上は1日）
+export const withBucket = (range: RangeWindow): RangeWindow => {
+  if (range.from === undefined) return { ...range, bucket: '1h' };
+  const end = range.to ? new Date(range.to).getTime() : Date.now();
+  const days = (end - new Date(range.from).getTime()) / (24 * 60 * 60 * 1000);
+  return { ...range, bucket: days > 90 ? '1d' : days > 7 ? '1h' : undefined };
+};
+
+export const toQueryString = (params: Record<string, string | undefined>): string => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, value);
+  }
+  return query.toString();
+};
+
+// URLの検索パラメータから表示範囲を読み書きする
+export function useTimeRange() {
+  const search = useSearch({ from: '__root__' });
+  const navigate = useNavigate();
+
+  const timeRange = search.range ?? '24h';
+  const customStartDate = search.from ?? '';
+  const customEndDate = search.to ?? '';
+  const rangeKey = [timeRange, customStartDate, customEndDate] as const;
+
+  // 範囲を変えるたびに履歴が増えないよう置き換える
+  const update = (patch: RangeSearch) => {
+    navigate({ to: '.', search: (previous: RangeSearch) => ({ ...previous, ...patch }), replace: true });
+  };
+
+  return {
+    timeRange,
+    customStartDate,
+    customEndDate,
+    rangeKey,
+    rangeWindow: toRangeWindow(...rangeKey),
+    setTimeRange: (range: TimeRange) => update({ range: range === '24h' ? undefined : range }),
+    setCustomStartDate: (from: string) => update({ from: from || undefined }),
+    setCustomEndDate: (to: string) => update({ to: to || undefined }),
+  };
+}
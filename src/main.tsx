@@ -2,22 +2,28 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { RouterProvider, createRouter, createRootRoute, createRoute } from '@tanstack/react-router';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import Layout from './components/Layout';
 import Dashboard from './components/Dashboard';
+import History from './components/History';
+import MeasurementDetail from './components/MeasurementDetail';
+import Reports from './components/Reports';
+import Settings from './components/Settings';
+import { parseRangeSearch } from './hooks/useTimeRange';
 import './index.css';
 
 // QueryClientの作成
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
-      refetchInterval: 30000, // 30秒ごとに自動更新
       staleTime: 10000,
     },
   },
 });
 
-// ルート定義
+// ルート定義（表示範囲 ?range=&from=&to= は全ページ共通の検索パラメータ）
 const rootRoute = createRootRoute({
-  component: Dashboard,
+  component: Layout,
+  validateSearch: parseRangeSearch,
 });
 
 const indexRoute = createRoute({
@@ -26,8 +32,40 @@ const indexRoute = createRoute({
   component: Dashboard,
 });
 
+const historyRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/history',
+  component: History,
+});
+
+const measurementRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/measurements/$timestamp',
+  // 同じ時刻の計測はプローブごとにあり得るため、どのプローブのものかを ?probe= で持つ
+  validateSearch: (search: Record<string, unknown>): { probe?: string } => ({
+    probe: typeof search.probe === 'string' && search.probe !== '' ? search.probe : undefined,
+  }),
+  component: function MeasurementPage() {
+    const { timestamp } = measurementRoute.useParams();
+    const { probe } = measurementRoute.useSearch();
+    return <MeasurementDetail timestamp={timestamp} probe={probe} />;
+  },
+});
+
+const reportsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/reports',
+  component: Reports,
+});
+
+const settingsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/settings',
+  component: Settings,
+});
+
 // ルーター作成
-const routeTree = rootRoute.addChildren([indexRoute]);
+const routeTree = rootRoute.addChildren([indexRoute, historyRoute, measurementRoute, reportsRoute, settingsRoute]);
 const router = createRouter({ routeTree });
 
 declare module '@tanstack/react-router' {
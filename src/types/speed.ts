@@ -1,3 +1,9 @@
+import type { TimeSlot } from '../../shared/timeslots';
+import type { Distribution, HistogramBin, CdfPoint, PeriodComparison } from '../../shared/stats';
+
+export type { TimeSlot };
+export type MeasurementMethod = 'ookla' | 'netflix' | 'selfhosted';
+
 export interface SpeedData {
   timestamp: string;
   download: number;
@@ -6,7 +12,115 @@ export interface SpeedData {
   jitter: number;
   server?: string;
   isp?: string;
-  method?: 'ookla' | 'netflix';
+  method?: MeasurementMethod;
+  // 手動で要求された計測
+  manual?: boolean;
+  downloadBytes?: number;
+  uploadBytes?: number;
+  // Ookla の計測でのみ取得できる詳細
+  packetLoss?: number;
+  downloadLatency?: number;
+  uploadLatency?: number;
+  serverId?: number;
+  serverHost?: string;
+  serverLocation?: string;
+  externalIp?: string;
+  internalIp?: string;
+  interfaceName?: string;
+  isVpn?: boolean;
+  resultUrl?: string;
+  // 計測したプローブ（未設定はAPIサーバーと同じホスト）
+  probe?: string;
+  hostname?: string;
+  network?: string;
+}
+
+// GET /api/probes（probe が空文字のものはAPIサーバーと同じホスト）
+export interface ProbeSummary {
+  probe: string;
+  hostname?: string;
+  network?: string;
+  count: number;
+  lastSeen: string;
+}
+
+export type MeasureJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface MeasureJob {
+  id: string;
+  status: MeasureJobStatus;
+  manual: boolean;
+  requestedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: SpeedData;
+  error?: string;
+  // POST /api/measure の応答のみ。既存の計測に合流した場合 true
+  merged?: boolean;
+}
+
+export interface MetricSummary {
+  min: number;
+  avg: number;
+  max: number;
+  p50: number;
+  p95: number;
+}
+
+export interface SpeedBucket {
+  timestamp: string;
+  count: number;
+  download: MetricSummary;
+  upload: MetricSummary;
+  ping: MetricSummary;
+  jitter: MetricSummary;
+}
+
+export type SummaryMetric = 'download' | 'upload' | 'ping' | 'jitter';
+
+export interface PeakRecord {
+  value: number;
+  timestamp: string;
+}
+
+// 最高下り・最高上り・最低Ping（計測がなければ null）
+export interface PeakSummary {
+  download: PeakRecord | null;
+  upload: PeakRecord | null;
+  ping: PeakRecord | null;
+}
+
+export interface SlotSummary extends Record<SummaryMetric, Distribution> {
+  slot: string;
+  count: number;
+}
+
+// GET /api/stats/summary の応答
+export interface RangeSummary extends Record<SummaryMetric, Distribution> {
+  count: number;
+  below?: { thresholdMbps: number; download: number; upload: number };
+  manualCount: number;
+  peaks: PeakSummary;
+  timeSlots: SlotSummary[];
+  histogram: Record<SummaryMetric, HistogramBin[]>;
+  cdf: Record<SummaryMetric, CdfPoint[]>;
+}
+
+export interface MetricComparison {
+  before: Distribution;
+  after: Distribution;
+  comparison: PeriodComparison;
+}
+
+export interface SlotComparison extends Record<SummaryMetric, MetricComparison> {
+  slot: string;
+  count: [number, number];
+}
+
+// GET /api/stats/compare の応答（before が比較元の期間）
+export interface RangeComparison extends Record<SummaryMetric, MetricComparison> {
+  peaks: [PeakSummary, PeakSummary];
+  timeSlots: SlotComparison[];
 }
 
 export interface Stats {
@@ -34,9 +148,223 @@ export interface TimeSlotStat {
   count: number;
 }
 
+export interface RetentionPolicy {
+  rawDays: number;
+  hourlyMonths: number;
+}
+
+// 曜日・時間帯ごとの計測間隔
+export interface ScheduleWindow {
+  // 0 = 日曜。省略時は毎日
+  days?: number[];
+  start: string;
+  end: string;
+  skip?: boolean;
+  intervalMinutes?: number;
+  jitterMinutes?: number;
+}
+
+export interface SchedulePreview {
+  runs: string[];
+  runsPerDay: number;
+}
+
+export interface DataBudget {
+  period: 'day' | 'month';
+  limitMB: number;
+  throttlePercent: number;
+  action: 'stretch' | 'switch';
+  lightMethod?: MeasurementMethod;
+  resetDay?: number;
+}
+
+export interface BudgetStatus {
+  budget: DataBudget;
+  periodStart: string;
+  periodEnd: string;
+  limitBytes: number;
+  usedBytes: number;
+  remainingBytes: number;
+  usedPercent: number;
+  state: 'ok' | 'throttled' | 'exhausted';
+  method: MeasurementMethod;
+  bytesPerRun: number;
+  minIntervalMinutes: number | null;
+}
+
+// Ookla の計測サーバーの固定・除外（serverId: null で固定を解除）
+export interface OoklaOptions {
+  serverId?: number | null;
+  excludeServerIds?: number[];
+}
+
+export type BreakdownDimension = 'server' | 'isp';
+
+export interface MetricSpread {
+  avg: number;
+  p10: number;
+  p90: number;
+}
+
+// GET /api/stats/by-server, /api/stats/by-isp
+export interface BreakdownGroup {
+  key: string | null;
+  count: number;
+  serverId?: number;
+  serverLocation?: string;
+  lastSeen: string;
+  download: MetricSpread;
+  upload: MetricSpread;
+  ping: MetricSpread;
+  jitter: MetricSpread;
+}
+
+export type AnomalyMetric = 'download' | 'upload' | 'ping';
+
+// GET /api/anomalies
+export interface Anomaly {
+  timestamp: string;
+  metric: AnomalyMetric;
+  value: number;
+  baseline: number;
+  deviationPercent: number;
+  bucket: string;
+  message: string;
+}
+
+export interface AnomalyPeriod {
+  start: string;
+  end: string;
+  metric: AnomalyMetric;
+  samples: number;
+  worstDeviationPercent: number;
+}
+
+export interface AnomalyReport {
+  options: { thresholdPercent: number; lookbackDays: number };
+  anomalies: Anomaly[];
+  periods: AnomalyPeriod[];
+}
+
+export type AnnotationCategory = 'equipment' | 'reboot' | 'isp' | 'config' | 'other';
+
+// GET /api/annotations（ルーター交換・再起動など、速度の変化を説明する出来事）
+export interface Annotation {
+  id: string;
+  timestamp: string;
+  endTime?: string;
+  label: string;
+  category: AnnotationCategory;
+  author?: string;
+  createdAt: string;
+}
+
+// GET /api/stats/heatmap（計測のないマスは含まれない）
+export interface HeatmapCell {
+  // 0 = 日曜
+  day: number;
+  hour: number;
+  count: number;
+  download: number;
+  upload: number;
+  ping: number;
+}
+
 export interface Config {
   intervalMinutes: number;
-  method?: 'ookla' | 'netflix';
+  schedule?: ScheduleWindow[];
+  method?: MeasurementMethod;
+  fallback?: MeasurementMethod[];
+  ookla?: OoklaOptions;
+  retention?: RetentionPolicy;
+  heartbeat?: HeartbeatOptions;
+  notifications?: NotificationOptions;
+  plan?: ServicePlan;
+  // 時間帯の区切り（未設定なら既定の区切り）
+  timeSlots?: TimeSlot[];
+  budget?: DataBudget;
+}
+
+export type FailureClass = 'cli-missing' | 'dns' | 'timeout' | 'parse' | 'no-route' | 'unknown';
+
+export interface OutageWindow {
+  start: string;
+  end: string | null;
+  failures: number;
+  errorClasses: FailureClass[];
+  lastMessage: string;
+}
+
+export interface OutageReport {
+  outages: OutageWindow[];
+  totalDowntimeMs: number;
+  availability: number;
+}
+
+// 生データ・集計データのどちらにも含まれる疎通確認の項目
+export interface HeartbeatPoint {
+  timestamp: string;
+  latency: number | null;
+  loss: number;
+}
+
+export interface HeartbeatOptions {
+  enabled: boolean;
+  intervalSeconds: number;
+  dnsHost: string;
+  targets: string[];
+  gateway?: string;
+}
+
+export interface AlertEvent {
+  ruleId: string;
+  ruleName: string;
+  state: 'fired' | 'resolved';
+  timestamp: string;
+  value: number;
+  message: string;
+}
+
+export interface NotificationOptions {
+  webhooks: string[];
+  desktop: boolean;
+}
+
+export interface ServicePlan {
+  downloadMbps: number;
+  uploadMbps: number;
+  minDownloadMbps: number;
+  minUploadMbps?: number;
+  maxPingMs: number;
+}
+
+export interface SlaReport {
+  plan: ServicePlan;
+  samples: number;
+  compliance: {
+    download: number;
+    upload: number | null;
+    ping: number;
+    overall: number;
+  };
+  contractedRatio: { download: number; upload: number };
+  worstHours: { hour: number; count: number; avgDownload: number; compliance: number }[];
+  longestStreaks: { start: string; end: string; samples: number }[];
+  timeSlots: { slot: string; count: number; compliance: number | null }[];
+  annotations: Annotation[];
+  // 保持期間を過ぎて集計済みになり、達成率に含まれない計測の件数
+  rolledUpSamples: number;
+}
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export interface ImportResult {
+  imported: number;
+  duplicates: number;
+  errors: { row: number; error: string }[];
 }
 
 export type TimeRange = '24h' | '7d' | 'all' | 'custom';
+
+// 比較モード（別の期間と比べる / 表示期間を日付の前後に分けて比べる）
+export type CompareMode = 'off' | 'range' | 'split';